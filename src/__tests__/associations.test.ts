@@ -0,0 +1,155 @@
+import * as core from '@actions/core';
+import {
+  AssociationOptions,
+  createAssociationCache,
+  getAssociationOptions,
+  linkAssociations,
+  seedPullRequest
+} from '../associations';
+import { parseCommitMessage } from '../message';
+import { Commit, Octokit } from '../types';
+
+jest.mock('@actions/core');
+
+const commit = (id: string, message = 'feat: add billing'): Commit => ({
+  id,
+  message,
+  author: { name: 'Dev User', email: 'dev@test.com' },
+  timestamp: '2023-01-01T10:00:00Z',
+  url: `https://github.com/testowner/testrepo/commit/${id}`,
+  files: { added: [], modified: ['src/billing.ts'], removed: [], total_changes: 1 },
+  parsed: parseCommitMessage(message)
+});
+
+const options: AssociationOptions = {
+  enabled: true,
+  retry: { maxAttempts: 1, baseDelayMs: 1, maxWaitMs: 10 }
+};
+
+const pullRequest = {
+  number: 412,
+  title: 'New billing page',
+  url: 'https://api.github.com/repos/testowner/testrepo/pulls/412',
+  html_url: 'https://github.com/testowner/testrepo/pull/412',
+  labels: [{ name: 'feature' }]
+};
+
+function mockOctokit(prCommits: string[]) {
+  const listPullRequestsAssociatedWithCommit = jest.fn().mockResolvedValue({ data: [pullRequest] });
+  const get = jest.fn().mockImplementation(async ({ issue_number }: { issue_number: number }) => {
+    if (issue_number === 404) throw new Error('Not Found');
+    return { data: { title: `Issue ${issue_number}`, html_url: `https://github.com/testowner/testrepo/issues/1` } };
+  });
+  const paginate = jest
+    .fn()
+    .mockResolvedValue(prCommits.map(sha => ({ sha, commit: { message: 'x', author: { name: 'a', email: 'b' } } })));
+  const octokit = {
+    paginate,
+    rest: { repos: { listPullRequestsAssociatedWithCommit }, issues: { get }, pulls: { listCommits: jest.fn() } }
+  } as unknown as Octokit;
+  return { octokit, listPullRequestsAssociatedWithCommit, get, paginate };
+}
+
+describe('pull request and issue associations', () => {
+  const mockedGetInput = core.getInput as jest.MockedFunction<typeof core.getInput>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedGetInput.mockReturnValue('');
+  });
+
+  test('linking is off by default', () => {
+    expect(getAssociationOptions().enabled).toBe(false);
+    mockedGetInput.mockImplementation(name => (name === 'link-associations' ? 'true' : ''));
+    expect(getAssociationOptions().enabled).toBe(true);
+  });
+
+  test('looks up a pull request once for all of its commits', async () => {
+    const { octokit, listPullRequestsAssociatedWithCommit, paginate } = mockOctokit(['sha1', 'sha2', 'sha3']);
+    const cache = createAssociationCache();
+
+    const linked = await linkAssociations(
+      [commit('sha1'), commit('sha2'), commit('sha3')],
+      octokit,
+      'testowner',
+      'testrepo',
+      cache,
+      options
+    );
+
+    expect(listPullRequestsAssociatedWithCommit).toHaveBeenCalledTimes(1);
+    expect(paginate).toHaveBeenCalledTimes(1);
+    expect(linked.map(c => c.associations?.pull_requests)).toEqual(
+      Array(3).fill([
+        {
+          number: 412,
+          title: 'New billing page',
+          url: 'https://github.com/testowner/testrepo/pull/412',
+          labels: ['feature']
+        }
+      ])
+    );
+
+    // A later batch of the same run reuses the cache
+    await linkAssociations([commit('sha2')], octokit, 'testowner', 'testrepo', cache, options);
+    expect(listPullRequestsAssociatedWithCommit).toHaveBeenCalledTimes(1);
+  });
+
+  test('skips lookups for commits seeded from the event', async () => {
+    const { octokit, listPullRequestsAssociatedWithCommit } = mockOctokit([]);
+    const cache = createAssociationCache();
+    seedPullRequest(
+      cache,
+      {
+        number: 7,
+        title: 'Seeded',
+        body: null,
+        url: 'https://github.com/testowner/testrepo/pull/7',
+        labels: [],
+        base_ref: 'main',
+        head_ref: 'feature',
+        merge_commit_sha: null
+      },
+      ['sha1']
+    );
+
+    const [linked] = await linkAssociations([commit('sha1')], octokit, 'testowner', 'testrepo', cache, options);
+
+    expect(listPullRequestsAssociatedWithCommit).not.toHaveBeenCalled();
+    expect(linked.associations?.pull_requests[0].number).toBe(7);
+  });
+
+  test('adds issue titles once per issue and tolerates failed lookups', async () => {
+    const { octokit, get, listPullRequestsAssociatedWithCommit } = mockOctokit([]);
+    listPullRequestsAssociatedWithCommit.mockRejectedValueOnce(new Error('Server Error'));
+    const commits = [commit('sha1', 'fix: totals\n\nFixes #12, #404'), commit('sha2', 'fix: rounding\n\nRefs: #12')];
+
+    const linked = await linkAssociations(
+      commits,
+      octokit,
+      'testowner',
+      'testrepo',
+      createAssociationCache(),
+      options,
+      text => text.replace('12', '[REDACTED]')
+    );
+
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(linked[0].associations).toEqual({
+      pull_requests: [],
+      issues: [
+        {
+          repo: null,
+          number: 12,
+          action: 'closes',
+          title: 'Issue [REDACTED]',
+          url: 'https://github.com/testowner/testrepo/issues/1'
+        },
+        { repo: null, number: 404, action: 'closes', title: null, url: null }
+      ]
+    });
+    expect(linked[1].associations?.issues[0].title).toBe('Issue [REDACTED]');
+    expect(linked[1].associations?.pull_requests).toHaveLength(1);
+    expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Could not look up pull requests for sha1'));
+  });
+});
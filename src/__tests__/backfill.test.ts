@@ -0,0 +1,132 @@
+import * as core from '@actions/core';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BackfillOptions, getBackfillOptions, runBackfill } from '../backfill';
+import { EnrichmentOptions } from '../enrich';
+import { DEFAULT_GITHUB_RETRY_OPTIONS } from '../github-retry';
+import { SCHEMA_VERSION, validatePayload } from '../payload';
+import { Octokit } from '../types';
+
+jest.mock('@actions/core');
+
+const apiCommit = (sha: string) => ({
+  sha,
+  commit: {
+    message: `commit ${sha}`,
+    author: { name: 'Dev User', email: 'dev@test.com', date: '2023-01-01T10:00:00Z' }
+  }
+});
+
+describe('backfill', () => {
+  const mockedGetInput = core.getInput as jest.MockedFunction<typeof core.getInput>;
+  let stateDir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedGetInput.mockReturnValue('');
+    stateDir = mkdtempSync(join(tmpdir(), 'shiploud-backfill-'));
+  });
+
+  afterEach(() => {
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  describe('getBackfillOptions()', () => {
+    test('falls back to workflow_dispatch inputs and the dispatched branch', () => {
+      const options = getBackfillOptions({ since: '2024-01-01', until: '2024-02-01' }, 'main');
+
+      expect(options.branch).toBe('main');
+      expect(options.since).toBe('2024-01-01T00:00:00.000Z');
+      expect(options.until).toBe('2024-02-01T00:00:00.000Z');
+      expect(options.batchSize).toBe(50);
+    });
+
+    test('parses a SHA range', () => {
+      mockedGetInput.mockImplementation((name: string) => (name === 'backfill-range' ? 'abc123...def456' : ''));
+
+      const options = getBackfillOptions(undefined, 'main');
+
+      expect(options.base).toBe('abc123');
+      expect(options.head).toBe('def456');
+    });
+
+    test('rejects invalid dates with the input name', () => {
+      expect(() => getBackfillOptions({ since: 'last tuesday' }, 'main')).toThrow(
+        'Invalid backfill-since date "last tuesday"'
+      );
+    });
+  });
+
+  describe('runBackfill()', () => {
+    // The API lists newest first; the backfill must send oldest first
+    const octokitWithHistory = (count: number) =>
+      ({
+        paginate: jest.fn().mockResolvedValue(
+          Array.from({ length: count }, (_, i) => apiCommit(`sha${count - i}`))
+        ),
+        rest: { repos: { listCommits: jest.fn(), getCommit: jest.fn().mockResolvedValue({ data: { files: [] } }) } }
+      }) as unknown as Octokit;
+
+    const enrichment: EnrichmentOptions = {
+      concurrency: 2,
+      retry: DEFAULT_GITHUB_RETRY_OPTIONS,
+      maxFiles: 1000,
+      serverUrl: 'https://github.com'
+    };
+
+    const options = (): BackfillOptions => ({
+      branch: 'main',
+      batchSize: 2,
+      stateFile: join(stateDir, 'state.json')
+    });
+
+    test('sends oldest-first batches with a batch envelope and checkpoints progress', async () => {
+      const send = jest.fn().mockResolvedValue(undefined);
+
+      const sent = await runBackfill(octokitWithHistory(5), 'testowner', 'testrepo', options(), enrichment, send);
+
+      expect(sent).toBe(5);
+      expect(send).toHaveBeenCalledTimes(3);
+      expect(send.mock.calls[0][0].commits.map((c: { id: string }) => c.id)).toEqual(['sha1', 'sha2']);
+      expect(send.mock.calls[2][0].backfill).toEqual(
+        expect.objectContaining({ branch: 'main', batch_index: 3, total_batches: 3 })
+      );
+      // Backfill batches get their schema version stamped when they are delivered
+      const versioned = send.mock.calls.map(([payload]) => ({ schema_version: SCHEMA_VERSION, ...payload }));
+      expect(versioned.flatMap(validatePayload)).toEqual([]);
+
+      const checkpoint = JSON.parse(readFileSync(options().stateFile, 'utf8'));
+      expect(checkpoint).toEqual(expect.objectContaining({ last_sha: 'sha5', commits_confirmed: 5, completed: true }));
+    });
+
+    test('resumes from the last confirmed batch after an interruption', async () => {
+      const failingSend = jest
+        .fn()
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Failed after 5 attempts'));
+
+      await expect(
+        runBackfill(octokitWithHistory(5), 'testowner', 'testrepo', options(), enrichment, failingSend)
+      ).rejects.toThrow('Failed after 5 attempts');
+      expect(existsSync(options().stateFile)).toBe(true);
+
+      const send = jest.fn().mockResolvedValue(undefined);
+      const sent = await runBackfill(octokitWithHistory(5), 'testowner', 'testrepo', options(), enrichment, send);
+
+      expect(sent).toBe(3);
+      expect(send.mock.calls[0][0].commits.map((c: { id: string }) => c.id)).toEqual(['sha3', 'sha4']);
+      expect(send.mock.calls[0][0].backfill.batch_index).toBe(2);
+    });
+
+    test('does nothing once the window has been fully backfilled', async () => {
+      await runBackfill(octokitWithHistory(2), 'testowner', 'testrepo', options(), enrichment, jest.fn());
+
+      const send = jest.fn();
+      const sent = await runBackfill(octokitWithHistory(2), 'testowner', 'testrepo', options(), enrichment, send);
+
+      expect(sent).toBe(0);
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { computePushId, sendInBatches, splitIntoBatches } from '../batch';
+import { Commit } from '../types';
+
+jest.mock('@actions/core');
+
+const makeCommit = (id: string, fileCount = 0): Commit => ({
+  id,
+  message: `commit ${id}`,
+  author: { name: 'Dev User', email: 'dev@test.com' },
+  timestamp: '2023-01-01T10:00:00Z',
+  url: `https://github.com/testowner/testrepo/commit/${id}`,
+  files: {
+    added: Array.from({ length: fileCount }, (_, i) => `src/generated/file-${i}.ts`),
+    modified: [],
+    removed: [],
+    total_changes: fileCount
+  }
+});
+
+const makePayload = (commits: Commit[]) => ({ repo: 'testrepo', owner: 'testowner', commits });
+
+describe('batching', () => {
+  describe('splitIntoBatches()', () => {
+    test('keeps small pushes in a single batch with an envelope', () => {
+      const payload = makePayload([makeCommit('a'), makeCommit('b')]);
+
+      const batches = splitIntoBatches(payload, { maxCommits: 100, maxBytes: 1024 * 1024 });
+
+      expect(batches).toHaveLength(1);
+      expect(batches[0].commits).toHaveLength(2);
+      expect(batches[0].batch).toEqual({
+        batch_id: `${batches[0].batch.push_id}-1`,
+        index: 1,
+        total: 1,
+        push_id: computePushId('testowner', 'testrepo', payload.commits)
+      });
+    });
+
+    test('splits by commit count', () => {
+      const payload = makePayload(Array.from({ length: 5 }, (_, i) => makeCommit(`c${i}`)));
+
+      const batches = splitIntoBatches(payload, { maxCommits: 2, maxBytes: 1024 * 1024 });
+
+      expect(batches.map(b => b.commits.length)).toEqual([2, 2, 1]);
+      expect(batches.map(b => b.batch.index)).toEqual([1, 2, 3]);
+      expect(new Set(batches.map(b => b.batch.push_id)).size).toBe(1);
+    });
+
+    test('splits by serialized byte size', () => {
+      const payload = makePayload(Array.from({ length: 4 }, (_, i) => makeCommit(`c${i}`, 100)));
+      const maxBytes = 8000;
+
+      const batches = splitIntoBatches(payload, { maxCommits: 100, maxBytes });
+
+      expect(batches.length).toBeGreaterThan(1);
+      expect(batches.flatMap(b => b.commits.map(c => c.id))).toEqual(['c0', 'c1', 'c2', 'c3']);
+      for (const batch of batches) {
+        expect(Buffer.byteLength(JSON.stringify(batch))).toBeLessThanOrEqual(maxBytes);
+      }
+    });
+
+    test('sends an oversized commit in a batch of its own', () => {
+      const payload = makePayload([makeCommit('small'), makeCommit('huge', 1000), makeCommit('small2')]);
+
+      const batches = splitIntoBatches(payload, { maxCommits: 100, maxBytes: 4000 });
+
+      expect(batches.map(b => b.commits.map(c => c.id))).toEqual([['small'], ['huge'], ['small2']]);
+    });
+  });
+
+  describe('computePushId()', () => {
+    test('is stable for the same commits and differs for others', () => {
+      const commits = [makeCommit('a'), makeCommit('b')];
+
+      expect(computePushId('o', 'r', commits)).toBe(computePushId('o', 'r', commits));
+      expect(computePushId('o', 'r', commits)).not.toBe(computePushId('o', 'r', [makeCommit('a')]));
+    });
+  });
+
+  describe('sendInBatches()', () => {
+    test('keeps delivering after a failed batch and counts only accepted commits', async () => {
+      const payload = makePayload(Array.from({ length: 5 }, (_, i) => makeCommit(`c${i}`)));
+      const send = jest
+        .fn()
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Failed after 5 attempts'))
+        .mockResolvedValueOnce(undefined);
+
+      const result = await sendInBatches(payload, { maxCommits: 2, maxBytes: 1024 * 1024 }, send);
+
+      expect(send).toHaveBeenCalledTimes(3);
+      expect(result).toEqual({ accepted: 3, batches: 3, failedBatches: 1, errors: ['Failed after 5 attempts'] });
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import * as core from '@actions/core';
+import { getBranchPolicy, policyBranch, resolveBranchAction } from '../branch-policy';
+
+jest.mock('@actions/core');
+
+describe('branch policy', () => {
+  const mockedGetInput = core.getInput as jest.MockedFunction<typeof core.getInput>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedGetInput.mockReturnValue('');
+  });
+
+  test('publishes every branch without rules', () => {
+    expect(getBranchPolicy()).toEqual([]);
+    expect(resolveBranchAction('feature/x', 'main', [])).toBe('publish');
+  });
+
+  test('applies the first matching rule', () => {
+    mockedGetInput.mockImplementation(name =>
+      name === 'branch-policy' ? '$default=publish\ndependabot/**=skip\n**=draft' : ''
+    );
+    const rules = getBranchPolicy();
+
+    expect(resolveBranchAction('main', 'main', rules)).toBe('publish');
+    expect(resolveBranchAction('dependabot/npm/jest-29', 'main', rules)).toBe('skip');
+    expect(resolveBranchAction('feature/billing', 'main', rules)).toBe('draft');
+    // Without a known default branch, $default matches nothing
+    expect(resolveBranchAction('main', undefined, rules)).toBe('draft');
+  });
+
+  test('matches tags and releases by the branch they were cut from', () => {
+    const repository = { default_branch: 'main' };
+    const sha = 'a'.repeat(40);
+
+    expect(policyBranch('tag', 'v1.2.0', { repository, base_ref: 'refs/heads/release/1.x' })).toBe('release/1.x');
+    expect(policyBranch('tag', 'v1.2.0', { repository, base_ref: null })).toBe('main');
+    expect(policyBranch('release', sha, { repository })).toBe('main');
+    expect(policyBranch('release', 'release/1.x', { repository })).toBe('release/1.x');
+    expect(policyBranch('push', 'feature/x', { repository })).toBe('feature/x');
+  });
+
+  test('rejects malformed rules', () => {
+    mockedGetInput.mockImplementation(name => (name === 'branch-policy' ? 'main=hide' : ''));
+    expect(() => getBranchPolicy()).toThrow(
+      'Invalid branch-policy rule "main=hide" - expected <branch glob>=publish, draft or skip'
+    );
+  });
+});
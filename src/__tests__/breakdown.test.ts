@@ -0,0 +1,58 @@
+import { classifyFile, detectLanguage, summarizeChanges } from '../breakdown';
+
+const file = (filename: string, additions: number, deletions = 0) => ({ filename, status: 'modified', additions, deletions });
+
+describe('change breakdown', () => {
+  test('classifyFile() tells source, tests, docs, config and other apart', () => {
+    const cases: Array<[string, string]> = [
+      ['src/billing.ts', 'source'],
+      ['lib/app/models/user.rb', 'source'],
+      ['src/__tests__/billing.test.ts', 'tests'],
+      ['tests/test_api.py', 'tests'],
+      ['pkg/server/handler_test.go', 'tests'],
+      ['app/src/test/java/com/acme/BillingTest.java', 'tests'],
+      ['README.md', 'docs'],
+      ['docs/guide/setup.png', 'docs'],
+      ['CHANGELOG', 'docs'],
+      ['package.json', 'config'],
+      ['yarn.lock', 'config'],
+      ['.github/workflows/ci.yml', 'config'],
+      ['.eslintrc.js', 'config'],
+      ['jest.config.js', 'config'],
+      ['Dockerfile', 'config'],
+      ['assets/logo.png', 'other']
+    ];
+
+    expect(cases.map(([path]) => [path, classifyFile(path)])).toEqual(cases);
+  });
+
+  test('detectLanguage() uses extensions and well-known file names', () => {
+    expect(detectLanguage('src/App.TSX')).toBe('TypeScript');
+    expect(detectLanguage('cmd/main.go')).toBe('Go');
+    expect(detectLanguage('build/Dockerfile')).toBe('Dockerfile');
+    expect(detectLanguage('assets/logo.png')).toBeNull();
+  });
+
+  test('summarizeChanges() aggregates by category and language and picks the primary category', () => {
+    const breakdown = summarizeChanges([
+      file('src/billing.ts', 40, 10),
+      file('src/billing.test.ts', 80, 0),
+      file('src/invoice.ts', 20, 5),
+      file('README.md', 3, 1)
+    ]);
+
+    expect(breakdown).toEqual({
+      primary: 'tests',
+      categories: {
+        source: { files: 2, additions: 60, deletions: 15 },
+        tests: { files: 1, additions: 80, deletions: 0 },
+        docs: { files: 1, additions: 3, deletions: 1 }
+      },
+      languages: {
+        TypeScript: { files: 3, additions: 140, deletions: 15 },
+        Markdown: { files: 1, additions: 3, deletions: 1 }
+      }
+    });
+    expect(summarizeChanges([])).toEqual({ primary: null, categories: {}, languages: {} });
+  });
+});
@@ -0,0 +1,119 @@
+import * as core from '@actions/core';
+import {
+  CheckEventPayload,
+  CheckOptions,
+  attachCheckStatus,
+  checkedRange,
+  combineCheckRuns,
+  getCheckOptions,
+  isOwnPushRun
+} from '../checks';
+import { Commit, Octokit } from '../types';
+
+jest.mock('@actions/core');
+
+const commit = (id: string): Commit => ({
+  id,
+  message: 'feat: add billing',
+  author: { name: 'Dev User', email: 'dev@test.com' },
+  timestamp: '2023-01-01T10:00:00Z',
+  url: `https://github.com/testowner/testrepo/commit/${id}`,
+  files: { added: [], modified: ['src/billing.ts'], removed: [], total_changes: 1 }
+});
+
+const run = (name: string, status: string, conclusion: string | null, runId = 1) => ({
+  name,
+  status,
+  conclusion,
+  details_url: `https://github.com/testowner/testrepo/actions/runs/${runId}/job/${runId * 10}`
+});
+
+describe('check status', () => {
+  const mockedGetInput = core.getInput as jest.MockedFunction<typeof core.getInput>;
+  const options = (mode: CheckOptions['mode']): CheckOptions => ({
+    mode,
+    concurrency: 2,
+    retry: { maxAttempts: 1, baseDelayMs: 1, maxWaitMs: 10 },
+    currentRunId: 99
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedGetInput.mockReturnValue('');
+  });
+
+  test('reads the check-status mode', () => {
+    expect(getCheckOptions().mode).toBe('off');
+    mockedGetInput.mockImplementation(name => (name === 'check-status' ? 'Require' : ''));
+    expect(getCheckOptions(5)).toEqual(expect.objectContaining({ mode: 'require', currentRunId: 5 }));
+    mockedGetInput.mockImplementation(name => (name === 'check-status' ? 'always' : ''));
+    expect(() => getCheckOptions()).toThrow('Invalid check-status "always" - expected off, attach or require');
+  });
+
+  test('combines check runs into one conclusion', () => {
+    expect(combineCheckRuns([])).toEqual({ conclusion: 'neutral', total: 0, failed: [] });
+    expect(combineCheckRuns([run('build', 'completed', 'success'), run('docs', 'completed', 'skipped')])).toEqual({
+      conclusion: 'success',
+      total: 2,
+      failed: []
+    });
+    expect(combineCheckRuns([run('build', 'completed', 'success'), run('lint', 'in_progress', null)]).conclusion).toBe(
+      'pending'
+    );
+    expect(combineCheckRuns([run('test', 'completed', 'failure'), run('lint', 'queued', null)])).toEqual({
+      conclusion: 'failure',
+      total: 2,
+      failed: ['test']
+    });
+  });
+
+  test('takes the range of a check suite and the head commit of a workflow run', () => {
+    const headCommit = { id: 'sha2', message: 'fix', author: { name: 'a', email: 'b' }, timestamp: '' };
+    expect(
+      checkedRange({ check_suite: { before: 'sha0', after: 'sha2', head_branch: 'main', head_commit: headCommit } })
+    ).toEqual({ range: { before: 'sha0', after: 'sha2', ref: 'refs/heads/main' }, head: [headCommit] });
+    expect(checkedRange({ workflow_run: { head_sha: 'sha2', head_commit: headCommit } })).toEqual({
+      head: [headCommit]
+    });
+  });
+
+  test('isOwnPushRun() accepts only runs for pushes to this repository', () => {
+    const own = { event: 'push', head_repository: { full_name: 'testowner/testrepo' } };
+    const fork = { ...own, head_repository: { full_name: 'evil/r' } };
+    const ownPush = (payload: CheckEventPayload) => isOwnPushRun(payload, 'testowner/testrepo');
+
+    expect(ownPush({ workflow_run: own })).toBe(true);
+    expect(ownPush({ workflow_run: { ...own, event: 'pull_request' } })).toBe(false);
+    expect(ownPush({ workflow_run: fork })).toBe(false);
+    expect(ownPush({ check_suite: { head_branch: 'main', pull_requests: [] } })).toBe(true);
+    expect(ownPush({ check_suite: { head_branch: 'fix', pull_requests: [{ number: 7 }] } })).toBe(false);
+  });
+
+  test('attaches check status and holds back commits that are not green in require mode', async () => {
+    const checkRuns: Record<string, ReturnType<typeof run>[]> = {
+      green: [run('build', 'completed', 'success'), run('export', 'in_progress', null, 99)],
+      red: [run('build', 'completed', 'failure')],
+      busy: [run('build', 'in_progress', null)]
+    };
+    const listForRef = jest.fn(async ({ ref }: { ref: string }) => {
+      if (!checkRuns[ref]) throw new Error('Not Found');
+      return { data: { total_count: checkRuns[ref].length, check_runs: checkRuns[ref] }, headers: {} };
+    });
+    const octokit = { rest: { checks: { listForRef } } } as unknown as Octokit;
+    const commits = ['green', 'red', 'busy', 'gone'].map(commit);
+
+    const attached = await attachCheckStatus(commits, octokit, 'testowner', 'testrepo', options('attach'));
+    expect(attached.kept.map(c => c.checks?.conclusion)).toEqual(['success', 'failure', 'pending', undefined]);
+    expect(attached.skipped).toEqual([]);
+
+    const required = await attachCheckStatus(commits, octokit, 'testowner', 'testrepo', options('require'));
+    expect(required.kept.map(c => c.id)).toEqual(['green']);
+    expect(required.kept[0].checks).toEqual({ conclusion: 'success', total: 1, failed: [] });
+    expect(required.skipped).toEqual([
+      { id: 'red', reason: 'checks are failure' },
+      { id: 'busy', reason: 'checks are pending' },
+      { id: 'gone', reason: 'checks could not be read' }
+    ]);
+    expect(listForRef).toHaveBeenCalledWith(expect.objectContaining({ ref: 'green', filter: 'latest' }));
+  });
+});
@@ -0,0 +1,116 @@
+import * as core from '@actions/core';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseCliArgs, runCli } from '../cli';
+import { IngestPayload, validatePayload } from '../payload';
+
+jest.mock('@actions/core');
+
+describe('local CLI', () => {
+  const mockedGetInput = core.getInput as jest.MockedFunction<typeof core.getInput>;
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Read inputs from INPUT_* variables like the real @actions/core does
+    mockedGetInput.mockImplementation((name: string) => process.env[`INPUT_${name.toUpperCase()}`] ?? '');
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe('parseCliArgs()', () => {
+    test('maps flags and SHIPLOUD_* variables to inputs, flags first', () => {
+      const argv = ['v1.0.0..HEAD', '--repository', 'testowner/testrepo', '--author-email=drop', '--send'];
+      const options = parseCliArgs([...argv, '--exclude-merge-commits'], {
+        SHIPLOUD_API_TOKEN: 'env-token',
+        SHIPLOUD_AUTHOR_EMAIL: 'hash'
+      });
+
+      expect(options).toEqual(
+        expect.objectContaining({
+          range: 'v1.0.0..HEAD',
+          repository: { owner: 'testowner', repo: 'testrepo' },
+          send: true,
+          inputs: { 'api-token': 'env-token', 'author-email': 'drop', 'exclude-merge-commits': 'true' }
+        })
+      );
+    });
+
+    test('rejects unknown options and malformed values', () => {
+      expect(() => parseCliArgs(['--github-token'], {})).toThrow('Unknown option "--github-token"');
+      expect(() => parseCliArgs(['--max-count', '0'], {})).toThrow('Invalid --max-count "0"');
+      expect(() => parseCliArgs(['--repository', 'testrepo'], {})).toThrow('Invalid --repository "testrepo"');
+      expect(() => parseCliArgs(['--output'], {})).toThrow('Option "--output" needs a value');
+    });
+  });
+
+  test('runCli() prints only the payloads on stdout and logs to stderr', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'shiploud-cli-'));
+    const git = (...args: string[]) =>
+      execFileSync('git', ['-c', 'user.name=Dev User', '-c', 'user.email=dev@test.com', ...args], { cwd: dir });
+    // Log to stdout like the real @actions/core does
+    (core.info as jest.Mock).mockImplementation((message: string) => process.stdout.write(`${message}\n`));
+    const printed: string[] = [];
+    const logged: string[] = [];
+    const stdout = jest.spyOn(process.stdout, 'write').mockImplementation(chunk => printed.push(String(chunk)) > 0);
+    const stderr = jest.spyOn(process.stderr, 'write').mockImplementation(chunk => logged.push(String(chunk)) > 0);
+    try {
+      git('init', '-q');
+      writeFileSync(join(dir, 'README.md'), 'hello\n');
+      git('add', '.');
+      git('commit', '-q', '-m', 'docs: readme');
+
+      await runCli(parseCliArgs(['--cwd', dir, '--repository', 'testowner/testrepo'], {}));
+    } finally {
+      stdout.mockRestore();
+      stderr.mockRestore();
+      rmSync(dir, { recursive: true, force: true });
+    }
+
+    const payloads: IngestPayload[] = JSON.parse(printed.join(''));
+    expect(payloads[0].commits.map(c => c.message)).toEqual(['docs: readme']);
+    expect(logged.join('')).toContain('📚 Read 1 commits');
+  });
+
+  test('runCli() builds schema-valid payloads with files and line stats from a local checkout', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'shiploud-cli-'));
+    const git = (...args: string[]) =>
+      execFileSync('git', ['-c', 'user.name=Dev User', '-c', 'user.email=dev@test.com', ...args], { cwd: dir });
+    try {
+      git('init', '-q');
+      git('remote', 'add', 'origin', 'git@github.com:testowner/testrepo.git');
+      writeFileSync(join(dir, 'README.md'), 'hello\n');
+      git('add', '.');
+      git('commit', '-q', '-m', 'docs: readme');
+      writeFileSync(join(dir, 'billing.ts'), 'export const a = 1;\nexport const b = 2;\n');
+      git('mv', 'README.md', 'GUIDE.md');
+      git('add', '.');
+      git('commit', '-q', '-m', 'feat: billing\n\nCloses #7');
+
+      const output = join(dir, 'out', 'payloads.json');
+      await runCli(parseCliArgs(['HEAD~1..HEAD', '--cwd', dir, '--output', output, '--author-email', 'drop'], {}));
+
+      const payloads: IngestPayload[] = JSON.parse(readFileSync(output, 'utf8'));
+      expect(payloads).toHaveLength(1);
+      expect(validatePayload(payloads[0])).toEqual([]);
+      expect(payloads[0]).toEqual(expect.objectContaining({ owner: 'testowner', repo: 'testrepo' }));
+
+      const [commit] = payloads[0].commits;
+      expect(commit.message).toBe('feat: billing\n\nCloses #7');
+      expect(commit.author).toEqual({ name: 'Dev User' });
+      expect(commit.additions).toBe(2);
+      expect(commit.files.added).toEqual(['billing.ts']);
+      expect(commit.files.changes).toEqual([
+        { filename: 'GUIDE.md', status: 'renamed', additions: 0, deletions: 0, previous_filename: 'README.md' },
+        { filename: 'billing.ts', status: 'added', additions: 2, deletions: 0 }
+      ]);
+      expect(commit.parsed?.issues).toEqual([{ repo: null, number: 7, action: 'closes' }]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
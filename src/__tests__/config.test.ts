@@ -0,0 +1,128 @@
+import * as core from '@actions/core';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  EMPTY_REPO_CONFIG,
+  getInput,
+  loadRepoConfig,
+  parseRepoConfig,
+  useRepoConfig,
+  validateRepoConfig
+} from '../config';
+import { getBackfillOptions } from '../backfill';
+import { getListInput } from '../glob';
+import { Octokit } from '../types';
+
+jest.mock('@actions/core');
+
+describe('repository config', () => {
+  const originalWorkspace = process.env.GITHUB_WORKSPACE;
+  let workspace: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (core.getInput as jest.Mock).mockReturnValue('');
+    workspace = mkdtempSync(join(tmpdir(), 'shiploud-config-'));
+    process.env.GITHUB_WORKSPACE = workspace;
+  });
+
+  afterEach(() => {
+    useRepoConfig(EMPTY_REPO_CONFIG);
+    rmSync(workspace, { recursive: true, force: true });
+    if (originalWorkspace === undefined) {
+      delete process.env.GITHUB_WORKSPACE;
+    } else {
+      process.env.GITHUB_WORKSPACE = originalWorkspace;
+    }
+  });
+
+  test('validateRepoConfig() converts settings to their input form', () => {
+    expect(
+      validateRepoConfig(
+        {
+          'exclude-bots': true,
+          'batch-max-commits': 50,
+          'exclude-commit-paths': ['docs/**', '*.md'],
+          'destinations': [{ url: 'https://hooks.example.com', secret_env: 'HOOK_SECRET' }],
+          'skip-marker': null
+        },
+        '.shiploud.yml'
+      )
+    ).toEqual({
+      'exclude-bots': 'true',
+      'batch-max-commits': '50',
+      'exclude-commit-paths': 'docs/**\n*.md',
+      'destinations': '[{"url":"https://hooks.example.com","secret_env":"HOOK_SECRET"}]'
+    });
+  });
+
+  test('validateRepoConfig() names the exact failing key', () => {
+    const invalid: Array<[unknown, string]> = [
+      [['exclude-bots'], 'Invalid .shiploud.yml: expected a mapping of settings at the top level'],
+      [{ 'exclude-bot': true }, 'Invalid .shiploud.yml: unknown setting "exclude-bot"'],
+      [{ 'exclude-bots': 'yes' }, 'Invalid .shiploud.yml: "exclude-bots" must be true or false'],
+      [{ 'batch-max-commits': 1.5 }, 'Invalid .shiploud.yml: "batch-max-commits" must be an integer'],
+      [{ 'mask-paths': ['a', 3] }, 'Invalid .shiploud.yml: "mask-paths[1]" must be a string'],
+      [{ 'destinations': [{ url: 'x', secret: 's' }] }, '"destinations[0].secret" cannot be set in a config file'],
+      [{ 'api-token': 'abc' }, '"api-token" cannot be set in a config file'],
+      [{ 'github-api-url': 'https://ghe.example.com/api/v3' }, '"github-api-url" cannot be set in a config file']
+    ];
+
+    for (const [raw, message] of invalid) {
+      expect(() => validateRepoConfig(raw, '.shiploud.yml')).toThrow(message);
+    }
+  });
+
+  test('parseRepoConfig() reads JSON and YAML and prefixes parse errors with the file', () => {
+    expect(parseRepoConfig('{"dry-run": true}', '.shiploud.json').values).toEqual({ 'dry-run': 'true' });
+    expect(parseRepoConfig('dry-run: true', '.shiploud.yml').values).toEqual({ 'dry-run': 'true' });
+    expect(() => parseRepoConfig('dry-run: true\n  x: 1', '.shiploud.yml')).toThrow(
+      'Invalid .shiploud.yml: Nested mappings are not allowed in compact mappings at line 1'
+    );
+  });
+
+  test('loadRepoConfig() prefers the workspace and falls back to the API at the pushed SHA', async () => {
+    const getContent = jest
+      .fn()
+      .mockRejectedValueOnce({ status: 404 })
+      .mockResolvedValueOnce({ data: { type: 'file', content: Buffer.from('exclude-bots: true').toString('base64') } });
+    const octokit = { rest: { repos: { getContent } } } as unknown as Octokit;
+
+    const fromApi = await loadRepoConfig(octokit, 'testowner', 'testrepo', 'abcdef1234567');
+    expect(fromApi).toEqual({ file: '.shiploud.yaml', values: { 'exclude-bots': 'true' } });
+    expect(getContent).toHaveBeenLastCalledWith(
+      expect.objectContaining({ path: '.shiploud.yaml', ref: 'abcdef1234567' })
+    );
+
+    writeFileSync(join(workspace, '.shiploud.json'), '{"batch-max-commits": 20}');
+    const fromWorkspace = await loadRepoConfig(octokit, 'testowner', 'testrepo', 'abcdef1234567');
+    expect(fromWorkspace.values).toEqual({ 'batch-max-commits': '20' });
+    expect(getContent).toHaveBeenCalledTimes(2);
+  });
+
+  test('loadRepoConfig() honors config-file, including "none" and missing files', async () => {
+    writeFileSync(join(workspace, '.shiploud.yml'), 'dry-run: true');
+
+    (core.getInput as jest.Mock).mockImplementation((name: string) => (name === 'config-file' ? 'none' : ''));
+    expect(await loadRepoConfig(null, 'o', 'r', undefined)).toBe(EMPTY_REPO_CONFIG);
+
+    (core.getInput as jest.Mock).mockImplementation((name: string) => (name === 'config-file' ? 'ci/shiploud.yml' : ''));
+    await expect(loadRepoConfig(null, 'o', 'r', undefined)).rejects.toThrow(
+      'Config file "ci/shiploud.yml" was not found'
+    );
+  });
+
+  test('workflow inputs take precedence over the config file, dispatch inputs sit in between', () => {
+    useRepoConfig({
+      file: '.shiploud.yml',
+      values: { 'skip-marker': '[wip]', 'mask-paths': 'secret/\nkeys/', 'backfill-branch': 'develop' }
+    });
+    (core.getInput as jest.Mock).mockImplementation((name: string) => (name === 'skip-marker' ? '[skip]' : ''));
+
+    expect(getInput('skip-marker')).toBe('[skip]');
+    expect(getListInput('mask-paths')).toEqual(['secret/', 'keys/']);
+    expect(getBackfillOptions(undefined, 'main').branch).toBe('develop');
+    expect(getBackfillOptions({ branch: 'release' }, 'main').branch).toBe('release');
+  });
+});
@@ -0,0 +1,118 @@
+import * as core from '@actions/core';
+import {
+  DEFAULT_DELIVERY_OPTIONS,
+  DeliveryOptions,
+  backoffDelay,
+  deliverWithRetry,
+  getDeliveryOptions,
+  parseRetryAfter
+} from '../delivery';
+import { IngestRequest } from '../request';
+
+jest.mock('@actions/core');
+
+const mockFetch = jest.fn() as jest.Mock;
+global.fetch = mockFetch as unknown as typeof fetch;
+
+const request: IngestRequest = {
+  url: 'https://shiploud.so/api/github-actions/ingest',
+  headers: { 'Content-Type': 'application/json' },
+  body: '{}'
+};
+
+const response = (status: number, body: string, headers: Record<string, string> = {}) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: `Status ${status}`,
+  headers: new Headers(headers),
+  text: async () => body
+});
+
+describe('ingest delivery', () => {
+  const sleep = jest.fn().mockResolvedValue(undefined);
+  const options = (overrides: Partial<DeliveryOptions> = {}): DeliveryOptions => ({
+    ...DEFAULT_DELIVERY_OPTIONS,
+    sleep,
+    random: () => 1,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetch.mockReset();
+    (core.getInput as jest.Mock).mockReturnValue('');
+  });
+
+  describe('getDeliveryOptions()', () => {
+    test('reads attempts and converts timeouts to milliseconds', () => {
+      (core.getInput as jest.Mock).mockImplementation((name: string) => {
+        if (name === 'delivery-max-attempts') return '2';
+        if (name === 'delivery-timeout') return '10';
+        return '';
+      });
+
+      expect(getDeliveryOptions()).toEqual(
+        expect.objectContaining({ maxAttempts: 2, timeoutMs: 10_000, budgetMs: DEFAULT_DELIVERY_OPTIONS.budgetMs })
+      );
+    });
+
+    test('rejects invalid values', () => {
+      (core.getInput as jest.Mock).mockImplementation((name: string) => (name === 'delivery-budget' ? '-1' : ''));
+      expect(() => getDeliveryOptions()).toThrow('Invalid delivery-budget "-1" - expected a positive integer');
+    });
+  });
+
+  test('parseRetryAfter() accepts seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('7', now)).toBe(7000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT', now)).toBe(30_000);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+  });
+
+  test('backoffDelay() stays within 50-100% of the exponential delay', () => {
+    expect(backoffDelay(3, options({ random: () => 0 }))).toBe(2000);
+    expect(backoffDelay(3, options({ random: () => 1 }))).toBe(4000);
+  });
+
+  test('honors Retry-After on 429 responses', async () => {
+    mockFetch
+      .mockResolvedValueOnce(response(429, 'slow down', { 'Retry-After': '12' }))
+      .mockResolvedValueOnce(response(200, '{"ok":true}'));
+
+    await expect(deliverWithRetry(() => request, options())).resolves.toBe('{"ok":true}');
+
+    expect(sleep).toHaveBeenCalledWith(12_000);
+  });
+
+  test.each([
+    [401, 'invalid signature', 'signature was rejected'],
+    [401, 'unknown token', 'API token was rejected'],
+    [400, 'bad payload', 'Client errors are not retried']
+  ])('fails fast on %s with guidance', async (status, body, guidance) => {
+    mockFetch.mockResolvedValue(response(status, body));
+
+    await expect(deliverWithRetry(() => request, options())).rejects.toThrow(guidance);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  test('aborts attempts that exceed the timeout', async () => {
+    mockFetch.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => init.signal?.addEventListener('abort', () => reject(new Error('aborted'))))
+    );
+
+    await expect(deliverWithRetry(() => request, options({ maxAttempts: 2, timeoutMs: 20 }))).rejects.toThrow(
+      'Failed after 2 attempts. Last error: Request timed out after 0s'
+    );
+  });
+
+  test('stops retrying once the time budget is spent', async () => {
+    mockFetch.mockResolvedValue(response(503, 'maintenance', { 'Retry-After': '600' }));
+
+    await expect(deliverWithRetry(() => request, options({ budgetMs: 60_000 }))).rejects.toThrow(
+      'Delivery time budget of 60s exhausted after 1 attempts'
+    );
+  });
+});
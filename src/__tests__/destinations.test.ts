@@ -0,0 +1,147 @@
+import * as core from '@actions/core';
+import { DEFAULT_DELIVERY_OPTIONS } from '../delivery';
+import {
+  Destination,
+  assertDestinationsDelivered,
+  buildDestinationRequest,
+  createDestinationResult,
+  deliverToDestination,
+  getDestinations,
+  toGenericPayload
+} from '../destinations';
+import { IDEMPOTENCY_HEADER, SIGNATURE_HEADER, computeIdempotencyKey } from '../request';
+import { Commit } from '../types';
+
+jest.mock('@actions/core');
+
+const mockFetch = jest.fn() as jest.Mock;
+global.fetch = mockFetch as unknown as typeof fetch;
+
+const commit: Commit = {
+  id: 'abcdef1234567',
+  message: 'fix: escape <tags> & more\n\nbody',
+  author: { name: 'Dev', email: 'dev@test.com' },
+  timestamp: '2023-01-01T10:00:00Z',
+  url: 'https://github.com/testowner/testrepo/commit/abcdef1234567',
+  additions: 3,
+  deletions: 1,
+  files: { added: ['a.ts'], modified: [], removed: [], total_changes: 1 }
+};
+const payload = { repo: 'testrepo', owner: 'testowner', commits: [commit] };
+
+describe('destinations', () => {
+  const setInput = (value: string) =>
+    (core.getInput as jest.Mock).mockImplementation((name: string) => (name === 'destinations' ? value : ''));
+
+  const destination = (overrides: Partial<Destination> = {}): Destination => ({
+    name: 'changelog',
+    url: 'https://changelog.internal/hooks/commits',
+    secret: 'changelog-secret',
+    format: 'generic',
+    delivery: { ...DEFAULT_DELIVERY_OPTIONS, maxAttempts: 2, acceptAnyBody: true, sleep: async () => undefined },
+    onFailure: 'warn',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetch.mockReset();
+    setInput('');
+  });
+
+  test('getDestinations() reads each destination with its own retry policy', () => {
+    process.env.CHANGELOG_SECRET = 'from-env';
+    setInput(
+      JSON.stringify([
+        { name: 'changelog', url: 'https://changelog.internal/hook', secret_env: 'CHANGELOG_SECRET', max_attempts: 2 },
+        { url: 'https://hooks.slack.com/services/T/B/X', timeout: 5, on_failure: 'fail' },
+        { name: 'mirror', url: 'https://mirror.internal/ingest', secret: 's3cret', format: 'shiploud' }
+      ])
+    );
+
+    const [changelog, slack, mirror] = getDestinations(DEFAULT_DELIVERY_OPTIONS);
+    delete process.env.CHANGELOG_SECRET;
+
+    expect(changelog).toEqual(
+      expect.objectContaining({ name: 'changelog', secret: 'from-env', format: 'generic', onFailure: 'warn' })
+    );
+    expect(changelog.delivery).toEqual(expect.objectContaining({ maxAttempts: 2, timeoutMs: 30_000, acceptAnyBody: true }));
+    expect(slack).toEqual(expect.objectContaining({ name: 'destination-2', secret: '', onFailure: 'fail' }));
+    expect(slack.delivery.timeoutMs).toBe(5000);
+    expect(mirror.delivery).toEqual(expect.objectContaining({ maxAttempts: 5, acceptAnyBody: false }));
+    expect(core.setSecret).toHaveBeenCalledWith('from-env');
+    expect(core.setSecret).toHaveBeenCalledWith('s3cret');
+  });
+
+  test('getDestinations() points at the offending entry when the input is invalid', () => {
+    const invalid: Array<[string, string]> = [
+      ['not json', 'Invalid destinations - expected a JSON array'],
+      ['{"url":"https://a.b"}', 'Invalid destinations - expected a JSON array'],
+      ['[{"url":"ftp://a.b"}]', 'Invalid destinations[0].url "ftp://a.b"'],
+      ['[{"url":"https://a.b","format":"xml"}]', 'Invalid destinations[0].format "xml"'],
+      ['[{"url":"https://a.b","max_attempts":0}]', 'Invalid destinations[0].max_attempts "0"'],
+      ['[{"url":"https://a.b"},{"url":"https://c.d","name":"destination-1"}]', 'Invalid destinations[1].name'],
+      ['[{"url":"https://a.b","name":"shiploud.so"}]', 'Invalid destinations[0].name "shiploud.so"'],
+      ['[{"url":"https://a.b","secret_env":"MISSING_SECRET"}]', 'Invalid destinations[0].secret_env "MISSING_SECRET"']
+    ];
+
+    for (const [input, message] of invalid) {
+      setInput(input);
+      expect(() => getDestinations(DEFAULT_DELIVERY_OPTIONS)).toThrow(message);
+    }
+  });
+
+  test('toGenericPayload() adds Slack-compatible text and flattens each commit', () => {
+    const generic = toGenericPayload({ ...payload, batch: { batch_id: 'b', index: 1, total: 1, push_id: 'p' } });
+
+    expect(generic.text).toBe(
+      '1 new commit(s) in testowner/testrepo\n' +
+        '• <https://github.com/testowner/testrepo/commit/abcdef1234567|abcdef1> fix: escape &lt;tags&gt; &amp; more - Dev'
+    );
+    expect(generic).toEqual(
+      expect.objectContaining({ event: 'commits', repository: 'testowner/testrepo', batch: expect.any(Object) })
+    );
+    expect(generic.commits[0]).toEqual(expect.objectContaining({ id: 'abcdef1234567', files_changed: 1 }));
+  });
+
+  test('buildDestinationRequest() signs with the destination secret and keeps the idempotency key stable', () => {
+    const signed = buildDestinationRequest(destination(), payload);
+    const unsigned = buildDestinationRequest(destination({ secret: '', format: 'shiploud' }), payload);
+
+    expect(signed.url).toBe('https://changelog.internal/hooks/commits');
+    expect(JSON.parse(signed.body).text).toContain('testowner/testrepo');
+    expect(signed.headers[SIGNATURE_HEADER]).toMatch(/^sha256=[a-f0-9]{64}$/);
+    expect(unsigned.headers[SIGNATURE_HEADER]).toBeUndefined();
+    expect(unsigned.headers['X-Hub-Signature-256']).toBeUndefined();
+    expect(JSON.parse(unsigned.body)).toEqual(payload);
+    expect(signed.headers[IDEMPOTENCY_HEADER]).toBe(computeIdempotencyKey(payload, unsigned.body));
+    expect(unsigned.headers[IDEMPOTENCY_HEADER]).toBe(signed.headers[IDEMPOTENCY_HEADER]);
+  });
+
+  test('deliverToDestination() accepts plain-text replies and records failures without throwing', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: true, status: 200, text: async () => 'ok' })
+      .mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found', text: async () => 'no_service' });
+    const result = createDestinationResult('changelog', 'generic');
+
+    await deliverToDestination(destination(), payload, result);
+    await deliverToDestination(destination(), payload, result);
+
+    expect(result).toEqual(expect.objectContaining({ delivered: 1, failed: 1, commits: 1 }));
+    expect(result.errors[0]).toContain('404 Not Found');
+    expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Delivery to destination "changelog" failed'));
+  });
+
+  test('assertDestinationsDelivered() only fails for destinations marked fatal', () => {
+    const warnOnly = { ...createDestinationResult('changelog', 'generic'), failed: 1, errors: ['down'] };
+    const fatal = { ...createDestinationResult('slack', 'generic'), failed: 2, errors: ['timeout', 'gone'] };
+
+    expect(() => assertDestinationsDelivered([destination()], [warnOnly])).not.toThrow();
+    expect(() =>
+      assertDestinationsDelivered(
+        [destination(), destination({ name: 'slack', onFailure: 'fail' })],
+        [warnOnly, fatal]
+      )
+    ).toThrow('Failed to deliver to destination(s) "slack" (2 failed, last error: gone)');
+  });
+});
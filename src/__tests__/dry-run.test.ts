@@ -0,0 +1,72 @@
+import * as core from '@actions/core';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getDryRunOptions, writeDryRunFile, writeDryRunSummary } from '../dry-run';
+import { buildIngestRequest } from '../request';
+
+jest.mock('@actions/core');
+
+const payload = {
+  repo: 'testrepo',
+  owner: 'testowner',
+  commits: [
+    {
+      id: 'abc1234567',
+      message: 'feat: <billing> page\n\nLong description',
+      author: { name: 'Dev User', email: 'dev@test.com' },
+      timestamp: '2023-01-01T10:00:00Z',
+      url: 'https://github.com/testowner/testrepo/commit/abc1234567',
+      additions: 10,
+      deletions: 2,
+      files: { added: ['src/billing.ts'], modified: [], removed: [], total_changes: 1 }
+    }
+  ]
+};
+
+describe('dry run', () => {
+  const mockedGetInput = core.getInput as jest.MockedFunction<typeof core.getInput>;
+  let outDir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedGetInput.mockReturnValue('');
+    outDir = mkdtempSync(join(tmpdir(), 'shiploud-dry-run-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(outDir, { recursive: true, force: true });
+    delete process.env.GITHUB_STEP_SUMMARY;
+  });
+
+  test('is disabled unless the dry-run input is true', () => {
+    expect(getDryRunOptions().enabled).toBe(false);
+
+    mockedGetInput.mockImplementation((name: string) => (name === 'dry-run' ? 'true' : ''));
+    expect(getDryRunOptions().enabled).toBe(true);
+  });
+
+  test('writes the exact signed body and headers', () => {
+    const file = join(outDir, 'nested', 'dry-run.json');
+    const request = buildIngestRequest(payload, 'test-token');
+
+    writeDryRunFile(file, [request]);
+
+    const written = JSON.parse(readFileSync(file, 'utf8'));
+    expect(written.dry_run).toBe(true);
+    expect(written.requests[0].method).toBe('POST');
+    expect(written.requests[0].body).toBe(request.body);
+    expect(written.requests[0].headers['X-Hub-Signature-256']).toBe(request.headers['X-Hub-Signature-256']);
+  });
+
+  test('renders a commit table into the job summary', async () => {
+    process.env.GITHUB_STEP_SUMMARY = join(outDir, 'summary.md');
+
+    await writeDryRunSummary('/tmp/dry-run.json', [buildIngestRequest(payload, 'test-token')]);
+
+    const table = (core.summary.addTable as jest.Mock).mock.calls[0][0];
+    expect(table).toHaveLength(2);
+    expect(table[1]).toEqual(['abc1234', 'Dev User', 'feat: &lt;billing&gt; page', '1', '+10 -2']);
+    expect(core.summary.write).toHaveBeenCalled();
+  });
+});
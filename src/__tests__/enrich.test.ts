@@ -0,0 +1,150 @@
+import * as core from '@actions/core';
+import { EnrichmentOptions, formatCommits } from '../enrich';
+import { Octokit } from '../types';
+
+jest.mock('@actions/core');
+
+const rawCommit = (id: string) => ({
+  id,
+  message: `commit ${id}`,
+  author: { name: 'Dev User', email: 'dev@test.com' },
+  timestamp: '2023-01-01T10:00:00Z'
+});
+
+describe('commit enrichment', () => {
+  const options: EnrichmentOptions = {
+    concurrency: 2,
+    retry: { maxAttempts: 2, baseDelayMs: 1, maxWaitMs: 10 },
+    maxFiles: 1000,
+    serverUrl: 'https://github.com'
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('enriches commits and summarizes full, partial and missing file data', async () => {
+    const getCommit = jest.fn(({ ref }: { ref: string }) => {
+      if (ref === 'full') {
+        return Promise.resolve({
+          data: { files: [{ filename: 'src/a.ts', status: 'modified' }], stats: { additions: 1, deletions: 2 } },
+          headers: {}
+        });
+      }
+      if (ref === 'partial') {
+        return Promise.resolve({ data: { files: [{ filename: 'src/b.ts', status: 'added' }] }, headers: {} });
+      }
+      return Promise.reject(Object.assign(new Error('Not Found'), { status: 404 }));
+    });
+    const octokit = { rest: { repos: { getCommit } } } as unknown as Octokit;
+
+    const commits = await formatCommits(
+      [rawCommit('full'), rawCommit('partial'), rawCommit('missing'), { id: 'malformed' }],
+      octokit,
+      'testowner',
+      'testrepo',
+      options
+    );
+
+    expect(commits.map(c => c.id)).toEqual(['full', 'partial', 'missing']);
+    expect(commits[0].files.modified).toEqual(['src/a.ts']);
+    expect(commits[0].additions).toBe(1);
+    expect(commits[2].files.total_changes).toBe(0);
+    // 404 is not transient, so it is not retried
+    expect(getCommit).toHaveBeenCalledTimes(3);
+    expect(core.info).toHaveBeenCalledWith('📊 Enrichment: 1 full, 1 partial, 1 without file data');
+  });
+
+  test('keeps per-file status, stats and rename sources without patches', async () => {
+    const files = [
+      { filename: 'src/billing.ts', status: 'modified', additions: 10, deletions: 2, patch: '@@ -1 +1 @@' },
+      { filename: 'src/invoice.ts', status: 'renamed', additions: 0, deletions: 0, previous_filename: 'src/bill.ts' },
+      { filename: 'docs/billing.md', status: 'copied', additions: 5, deletions: 0, previous_filename: 'docs/a.md' }
+    ];
+    const getCommit = jest.fn().mockResolvedValue({ data: { files, stats: { additions: 15, deletions: 2 } }, headers: {} });
+    const octokit = { rest: { repos: { getCommit } } } as unknown as Octokit;
+
+    const [commit] = await formatCommits([rawCommit('abc123')], octokit, 'testowner', 'testrepo', options);
+
+    expect(commit.files.modified).toEqual(['src/billing.ts']);
+    expect(commit.files.total_changes).toBe(3);
+    expect(commit.files.changes).toEqual([
+      { filename: 'src/billing.ts', status: 'modified', additions: 10, deletions: 2 },
+      { filename: 'src/invoice.ts', status: 'renamed', additions: 0, deletions: 0, previous_filename: 'src/bill.ts' },
+      { filename: 'docs/billing.md', status: 'copied', additions: 5, deletions: 0, previous_filename: 'docs/a.md' }
+    ]);
+    expect(commit.breakdown).toEqual(
+      expect.objectContaining({ primary: 'source', languages: expect.objectContaining({ Markdown: expect.any(Object) }) })
+    );
+    expect(core.info).toHaveBeenCalledWith('✅ Found 0 added, 1 modified, 0 removed, 2 renamed or copied files');
+  });
+
+  test('keeps the signature verification and its signer', async () => {
+    const getCommit = jest.fn(({ ref }: { ref: string }) =>
+      Promise.resolve({
+        data: {
+          files: [],
+          stats: { additions: 0, deletions: 0 },
+          commit: { verification: { verified: ref === 'signed', reason: ref === 'signed' ? 'valid' : 'unsigned' } },
+          committer: { login: 'octocat' }
+        },
+        headers: {}
+      })
+    );
+    const octokit = { rest: { repos: { getCommit } } } as unknown as Octokit;
+
+    const [signed, unsigned] = await formatCommits(
+      [rawCommit('signed'), rawCommit('unsigned')],
+      octokit,
+      'testowner',
+      'testrepo',
+      options
+    );
+
+    expect(signed.verification).toEqual({ verified: true, reason: 'valid', signer: 'octocat' });
+    expect(unsigned.verification).toEqual({ verified: false, reason: 'unsigned', signer: null });
+  });
+
+  test('paginates large commits up to max-commit-files and keeps the true file count', async () => {
+    const link = '<https://api.github.com/repositories/1/commits/big?per_page=300&page=2>; rel="next", ' +
+      '<https://api.github.com/repositories/1/commits/big?per_page=300&page=4>; rel="last"';
+    const page = (n: number, size: number) =>
+      Array.from({ length: size }, (_, i) => ({ filename: `src/p${n}/f${i}.ts`, status: 'added', additions: 1, deletions: 0 }));
+    const getCommit = jest.fn(({ page: n }: { page: number }) =>
+      Promise.resolve({
+        data: { files: page(n, n === 4 ? 100 : 300), stats: { additions: 1000, deletions: 0 } },
+        headers: { link }
+      })
+    );
+    const octokit = { rest: { repos: { getCommit } } } as unknown as Octokit;
+
+    const [commit] = await formatCommits([rawCommit('big')], octokit, 'testowner', 'testrepo', {
+      ...options,
+      maxFiles: 400
+    });
+
+    // Pages 1 and 2 reach the cap; page 4 is only read to count the files
+    expect(getCommit.mock.calls.map(([params]) => params.page)).toEqual([1, 2, 4]);
+    expect(commit.files.changes).toHaveLength(400);
+    expect(commit.files.added).toHaveLength(400);
+    expect(commit.files.total_changes).toBe(1000);
+    expect(commit.files.truncated).toBe(true);
+    expect(commit.additions).toBe(1000);
+    expect(commit.breakdown?.categories.source?.files).toBe(400);
+    expect(core.warning).toHaveBeenCalledWith('Commit big changes 1000 files - exporting the first 400');
+  });
+
+  test('retries transient getCommit failures', async () => {
+    const getCommit = jest
+      .fn()
+      .mockRejectedValueOnce(Object.assign(new Error('Bad Gateway'), { status: 502 }))
+      .mockResolvedValueOnce({ data: { files: [], stats: { additions: 0, deletions: 0 } }, headers: {} });
+    const octokit = { rest: { repos: { getCommit } } } as unknown as Octokit;
+
+    const commits = await formatCommits([rawCommit('abc123')], octokit, 'testowner', 'testrepo', options);
+
+    expect(getCommit).toHaveBeenCalledTimes(2);
+    expect(commits).toHaveLength(1);
+    expect(core.info).toHaveBeenCalledWith('📊 Enrichment: 1 full, 0 partial, 0 without file data');
+  });
+});
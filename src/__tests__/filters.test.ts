@@ -0,0 +1,119 @@
+import * as core from '@actions/core';
+import {
+  DEFAULT_SKIP_MARKER,
+  FilterOptions,
+  filterCommits,
+  getFilterOptions,
+  isBotAuthor,
+  isMergeCommit,
+  skipReason
+} from '../filters';
+import { Commit } from '../types';
+
+jest.mock('@actions/core');
+
+const commit = (overrides: Partial<Commit> = {}): Commit => ({
+  id: 'abc1234567',
+  message: 'feat: add billing',
+  author: { name: 'Dev User', email: 'dev@test.com' },
+  timestamp: '2023-01-01T10:00:00Z',
+  url: 'https://github.com/testowner/testrepo/commit/abc1234567',
+  files: { added: ['src/billing.ts'], modified: ['README.md'], removed: [], total_changes: 2 },
+  ...overrides
+});
+
+const options = (overrides: Partial<FilterOptions> = {}): FilterOptions => ({
+  skipMarker: DEFAULT_SKIP_MARKER,
+  excludeBots: false,
+  excludeMerges: false,
+  includePaths: [],
+  excludePaths: [],
+  ...overrides
+});
+
+describe('commit filtering', () => {
+  const mockedGetInput = core.getInput as jest.MockedFunction<typeof core.getInput>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedGetInput.mockReturnValue('');
+  });
+
+  describe('getFilterOptions()', () => {
+    test('only applies the default skip marker by default', () => {
+      expect(getFilterOptions()).toEqual(options());
+    });
+
+    test('parses flags, path globs and a disabled marker', () => {
+      mockedGetInput.mockImplementation((name: string) => {
+        if (name === 'skip-marker') return 'none';
+        if (name === 'exclude-bots') return 'true';
+        if (name === 'exclude-commit-paths') return 'docs/\n*.lock';
+        return '';
+      });
+
+      expect(getFilterOptions()).toEqual(
+        options({ skipMarker: '', excludeBots: true, excludePaths: ['docs/', '*.lock'] })
+      );
+    });
+  });
+
+  test.each([
+    [{ name: 'dependabot[bot]', email: '49699333+dependabot[bot]@users.noreply.github.com' }, true],
+    [{ name: 'renovate', email: 'bot@renovateapp.com' }, true],
+    [{ name: 'Release Bot', email: '41898282+github-actions[bot]@users.noreply.github.com' }, true],
+    [{ name: 'Robot Builder', email: 'robot@test.com' }, false]
+  ])('isBotAuthor(%j) is %s', (author, expected) => {
+    expect(isBotAuthor(author)).toBe(expected);
+  });
+
+  test('detects merges from parents, falling back to the message', () => {
+    expect(isMergeCommit(commit({ parents: ['a', 'b'] }))).toBe(true);
+    expect(isMergeCommit(commit({ message: 'Merge pull request #12 from a/b', parents: ['a'] }))).toBe(false);
+    expect(isMergeCommit(commit({ message: "Merge branch 'main' into feature" }))).toBe(true);
+    expect(isMergeCommit(commit({ message: 'Merge sort implementation' }))).toBe(false);
+  });
+
+  describe('skipReason()', () => {
+    test('honours the skip marker anywhere in the message', () => {
+      expect(skipReason(commit({ message: 'wip\n\n[skip-story]' }), options())).toBe(
+        'message contains "[skip-story]"'
+      );
+      expect(skipReason(commit({ message: 'wip\n\n[skip-story]' }), options({ skipMarker: '' }))).toBeNull();
+    });
+
+    test('drops commits that only touch excluded paths', () => {
+      const docsOnly = commit({
+        files: { added: [], modified: ['docs/intro.md', 'yarn.lock'], removed: [], total_changes: 2 }
+      });
+      const filters = options({ excludePaths: ['docs/', 'yarn.lock'] });
+
+      expect(skipReason(docsOnly, filters)).toBe('only filtered paths changed');
+      expect(skipReason(commit(), filters)).toBeNull();
+    });
+
+    test('requires at least one changed file to match the include globs', () => {
+      const filters = options({ includePaths: ['src/**'] });
+      const readmeOnly = commit({ files: { added: [], modified: ['README.md'], removed: [], total_changes: 1 } });
+
+      expect(skipReason(commit(), filters)).toBeNull();
+      expect(skipReason(readmeOnly, filters)).toBe('only filtered paths changed');
+    });
+
+    test('keeps commits without file data regardless of path filters', () => {
+      const noFiles = commit({ files: { added: [], modified: [], removed: [], total_changes: 0 } });
+      expect(skipReason(noFiles, options({ includePaths: ['src/**'] }))).toBeNull();
+    });
+  });
+
+  test('filterCommits() logs each skipped commit with its reason', () => {
+    const result = filterCommits(
+      [commit(), commit({ id: 'def4567890', parents: ['a', 'b'] })],
+      options({ excludeMerges: true })
+    );
+
+    expect(result.kept.map(c => c.id)).toEqual(['abc1234567']);
+    expect(result.skipped).toEqual([{ id: 'def4567890', reason: 'merge commit' }]);
+    expect(core.info).toHaveBeenCalledWith('⏭️ Skipping def4567: merge commit');
+  });
+});
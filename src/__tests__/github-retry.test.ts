@@ -0,0 +1,106 @@
+import {
+  GitHubRetryOptions,
+  createRateLimitState,
+  mapWithConcurrency,
+  retryDelay,
+  withGitHubRetry
+} from '../github-retry';
+
+jest.mock('@actions/core');
+
+const httpError = (status: number, headers: Record<string, string> = {}, message = `HTTP ${status}`) =>
+  Object.assign(new Error(message), { status, response: { headers } });
+
+describe('GitHub API retries', () => {
+  const sleep = jest.fn().mockResolvedValue(undefined);
+  const options: GitHubRetryOptions = { maxAttempts: 3, baseDelayMs: 100, maxWaitMs: 10_000, sleep };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('retryDelay()', () => {
+    test('honors retry-after', () => {
+      expect(retryDelay(httpError(403, { 'retry-after': '5' }), 1, options)).toBe(5000);
+    });
+
+    test('waits for the rate limit reset when the budget is exhausted', () => {
+      const reset = String(Math.floor((Date.now() + 3000) / 1000));
+      const delay = retryDelay(httpError(403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset }), 1, options);
+
+      expect(delay).toBeGreaterThan(0);
+      expect(delay).toBeLessThanOrEqual(3000);
+    });
+
+    test('backs off exponentially on secondary rate limits and server errors', () => {
+      expect(retryDelay(httpError(403, {}, 'You have exceeded a secondary rate limit'), 2, options)).toBe(200);
+      expect(retryDelay(httpError(502), 3, options)).toBe(400);
+    });
+
+    test('caps waits at maxWaitMs', () => {
+      expect(retryDelay(httpError(429, { 'retry-after': '3600' }), 1, options)).toBe(10_000);
+    });
+
+    test('does not retry other client errors', () => {
+      expect(retryDelay(httpError(404), 1, options)).toBeNull();
+      expect(retryDelay(httpError(403, {}, 'Resource not accessible by integration'), 1, options)).toBeNull();
+    });
+  });
+
+  describe('withGitHubRetry()', () => {
+    test('retries transient failures until the request succeeds', async () => {
+      const request = jest
+        .fn()
+        .mockRejectedValueOnce(httpError(502))
+        .mockResolvedValueOnce({ data: 'ok', headers: {} });
+
+      await expect(withGitHubRetry(request, createRateLimitState(), options)).resolves.toEqual({
+        data: 'ok',
+        headers: {}
+      });
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(sleep).toHaveBeenCalledWith(100);
+    });
+
+    test('gives up after maxAttempts', async () => {
+      const request = jest.fn().mockRejectedValue(httpError(500));
+
+      await expect(withGitHubRetry(request, createRateLimitState(), options)).rejects.toThrow('HTTP 500');
+      expect(request).toHaveBeenCalledTimes(3);
+    });
+
+    test('pauses before requesting once the shared budget is exhausted', async () => {
+      const state = createRateLimitState();
+      const reset = String(Math.floor((Date.now() + 5000) / 1000));
+      const request = jest.fn().mockResolvedValue({
+        data: 'ok',
+        headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset }
+      });
+
+      await withGitHubRetry(request, state, options);
+      expect(state.remaining).toBe(0);
+      expect(sleep).not.toHaveBeenCalled();
+
+      await withGitHubRetry(request, state, options);
+      expect(sleep).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('mapWithConcurrency()', () => {
+    test('limits in-flight work and preserves order', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async item => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return item * 10;
+      });
+
+      expect(results).toEqual([10, 20, 30, 40, 50]);
+      expect(maxInFlight).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { globToRegExp, matchesAnyGlob } from '../glob';
+
+describe('glob matching', () => {
+  test.each([
+    ['src/*.ts', 'src/index.ts', true],
+    ['src/*.ts', 'src/lib/index.ts', false],
+    ['src/**/*.ts', 'src/index.ts', true],
+    ['src/**/*.ts', 'src/lib/deep/index.ts', true],
+    ['docs/', 'docs/guide/intro.md', true],
+    ['docs/', 'src/docs.ts', false],
+    ['file?.md', 'file1.md', true],
+    ['a.b', 'axb', false]
+  ])('%s matches %s: %s', (glob, path, expected) => {
+    expect(globToRegExp(glob).test(path)).toBe(expected);
+  });
+
+  test('globs without a slash match file names in any directory', () => {
+    expect(matchesAnyGlob('deep/nested/package-lock.json', ['package-lock.json'])).toBe(true);
+    expect(matchesAnyGlob('deep/nested/key.pem', ['*.md', '*.pem'])).toBe(true);
+    expect(matchesAnyGlob('deep/nested/key.pem', ['other/*.pem'])).toBe(false);
+  });
+});
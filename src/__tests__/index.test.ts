@@ -1,5 +1,11 @@
 import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { createHash, createHmac } from 'crypto';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { run, sendToBuildinpublicSo } from '../index';
+import { IngestPayload, SCHEMA_VERSION, validatePayload } from '../payload';
 
 // Use the current production ingest URL everywhere in tests
 const EXPECTED_INGEST_URL =
@@ -23,7 +29,8 @@ jest.mock('@actions/github', () => ({
         }
       ]
     }
-  }
+  },
+  getOctokit: jest.fn()
 }));
 
 // Mock fetch globally
@@ -44,9 +51,13 @@ describe('GitHub Action for shiploud.so', () => {
     setFailed: core.setFailed as jest.MockedFunction<typeof core.setFailed>
   };
 
+  // Tests that switch events mutate the mocked context; restore it afterwards
+  const originalContext = { ...github.context };
+
   beforeEach(() => {
     jest.clearAllMocks();
     mockFetch.mockClear();
+    Object.assign(github.context, originalContext);
 
     // Default mock setup
     mockedCore.getInput.mockImplementation((name: string) => {
@@ -55,6 +66,15 @@ describe('GitHub Action for shiploud.so', () => {
     });
   });
 
+  // Contract check: every body any test sends to the ingest API must match the published schema
+  afterEach(() => {
+    for (const [url, init] of mockFetch.mock.calls) {
+      if (url === EXPECTED_INGEST_URL && typeof init?.body === 'string') {
+        expect(validatePayload(JSON.parse(init.body))).toEqual([]);
+      }
+    }
+  });
+
   describe('run()', () => {
     test('successfully processes commits and sends to API', async () => {
       // Mock successful API response
@@ -113,18 +133,938 @@ describe('GitHub Action for shiploud.so', () => {
     });
   });
 
+  describe('run() batching', () => {
+    test('wraps the push in a batch envelope', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ ok: true })
+      });
+
+      await run();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.batch).toEqual({
+        batch_id: expect.stringMatching(/^[a-f0-9]{32}-1$/),
+        index: 1,
+        total: 1,
+        push_id: expect.stringMatching(/^[a-f0-9]{32}$/)
+      });
+    });
+
+    test('publishes exported SHAs, the payload digest and API references as outputs', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ ok: true, story_id: 'st_1', card_url: 'https://shiploud.so/c/st_1' })
+      });
+
+      await run();
+
+      const digest = createHash('sha256').update(mockFetch.mock.calls[0][1].body).digest('hex');
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('exported-shas', '["abc123"]');
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('skipped-shas', '[]');
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('payload-sha256', digest);
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('batches', 1);
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('api-ids', '["st_1"]');
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('card-urls', '["https://shiploud.so/c/st_1"]');
+    });
+
+    test('counts only accepted commits and optionally fails on rejections', async () => {
+      mockedCore.getInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-api-token-secret';
+        if (name === 'fail-on-rejection') return 'true';
+        return '';
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ rejected: [{ id: 'abc123', reason: 'repository not connected' }] })
+      });
+
+      await run();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('commits', 0);
+      expect(mockedCore.setOutput).toHaveBeenCalledWith(
+        'rejected-shas',
+        '[{"sha":"abc123","reason":"repository not connected"}]'
+      );
+      expect(mockedCore.setFailed).toHaveBeenCalledWith(
+        'The ingest API rejected 1 commit(s): abc123 (repository not connected)'
+      );
+    });
+
+    test('rejects invalid batch limits', async () => {
+      mockedCore.getInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-api-token-secret';
+        if (name === 'batch-max-commits') return '0';
+        return '';
+      });
+
+      await run();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockedCore.setFailed).toHaveBeenCalledWith('Invalid batch-max-commits "0" - expected a positive integer');
+    });
+  });
+
+  describe('run() with the compare API', () => {
+    const mockOctokit = {
+      rest: { repos: { compareCommitsWithBasehead: jest.fn(), getCommit: jest.fn() } }
+    };
+
+    beforeEach(() => {
+      mockedCore.getInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-api-token-secret';
+        if (name === 'github-token') return 'test-github-token';
+        return '';
+      });
+      (github.getOctokit as jest.Mock).mockReturnValue(mockOctokit);
+    });
+
+    test('exports every commit of the push range, not just the payload list', async () => {
+      Object.assign(github.context, {
+        payload: { ...originalContext.payload, before: 'aaaaaaa', after: 'bbbbbbb' }
+      });
+      mockOctokit.rest.repos.compareCommitsWithBasehead.mockResolvedValueOnce({
+        data: {
+          total_commits: 2,
+          commits: ['c1', 'c2'].map(sha => ({
+            sha,
+            commit: { message: `commit ${sha}`, author: { name: 'Dev', email: 'dev@test.com', date: '2023-01-01' } }
+          }))
+        }
+      });
+      mockOctokit.rest.repos.getCommit.mockResolvedValue({ data: { files: [], stats: {} } });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ ok: true })
+      });
+
+      await run();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.commits.map((c: { id: string }) => c.id)).toEqual(['c1', 'c2']);
+      expect(mockOctokit.rest.repos.getCommit).toHaveBeenCalledTimes(2);
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('commits', 2);
+    });
+
+    test('uses the Enterprise Server API and web URLs from a GHES context', async () => {
+      Object.assign(github.context, {
+        serverUrl: 'https://ghe.example.com',
+        apiUrl: 'https://ghe.example.com/api/v3',
+        payload: { ...originalContext.payload, before: 'aaaaaaa', after: 'bbbbbbb' }
+      });
+      mockOctokit.rest.repos.compareCommitsWithBasehead.mockResolvedValueOnce({
+        data: {
+          total_commits: 1,
+          commits: [{ sha: 'c1', commit: { message: 'feat: ghes', author: { name: 'Dev', email: 'dev@test.com' } } }],
+          files: [{ filename: 'src/a.ts', status: 'modified', additions: 1, deletions: 0 }]
+        }
+      });
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, text: async () => JSON.stringify({ ok: true }) });
+
+      try {
+        await run();
+      } finally {
+        Object.assign(github.context, { serverUrl: undefined, apiUrl: undefined });
+      }
+
+      const apiUrl = 'https://ghe.example.com/api/v3';
+      expect(github.getOctokit).toHaveBeenCalledWith('test-github-token', { baseUrl: apiUrl });
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.commits[0].url).toBe('https://ghe.example.com/testowner/testrepo/commit/c1');
+      expect(body.push).toEqual(
+        expect.objectContaining({
+          ref: 'refs/heads/main',
+          branch: 'main',
+          before: 'aaaaaaa',
+          after: 'bbbbbbb',
+          compare_url: 'https://ghe.example.com/testowner/testrepo/compare/aaaaaaa...bbbbbbb'
+        })
+      );
+    });
+
+    test('sends feature branches as drafts and skips branches by branch-policy', async () => {
+      mockedCore.getInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-api-token-secret';
+        if (name === 'branch-policy') return '$default=publish, dependabot/**=skip, **=draft';
+        if (name === 'author-email') return 'drop';
+        return '';
+      });
+      const pushPayload = {
+        ...originalContext.payload,
+        ref: 'refs/heads/feature/billing',
+        forced: true,
+        pusher: { name: 'octocat', email: 'octocat@test.com' },
+        repository: { default_branch: 'main' }
+      };
+      Object.assign(github.context, { ref: 'refs/heads/feature/billing', payload: pushPayload });
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, text: async () => JSON.stringify({ ok: true }) });
+
+      await run();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.draft).toBe(true);
+      expect(body.push).toEqual(
+        expect.objectContaining({ branch: 'feature/billing', forced: true, pusher: { name: 'octocat' } })
+      );
+
+      jest.clearAllMocks();
+      Object.assign(github.context, {
+        ref: 'refs/heads/dependabot/npm/jest',
+        payload: { ...pushPayload, ref: 'refs/heads/dependabot/npm/jest' }
+      });
+
+      await run();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('commits', 0);
+    });
+
+    test('skips deleted branches', async () => {
+      Object.assign(github.context, {
+        payload: { before: 'aaaaaaa', after: '0000000000000000000000000000000000000000', deleted: true, commits: [] }
+      });
+
+      await run();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('commits', 0);
+    });
+  });
+
+  describe('run() in dry-run mode', () => {
+    test('writes the signed request to a file and sends nothing', async () => {
+      const outDir = mkdtempSync(join(tmpdir(), 'shiploud-dry-run-'));
+      const file = join(outDir, 'request.json');
+      mockedCore.getInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-api-token-secret';
+        if (name === 'dry-run') return 'true';
+        if (name === 'dry-run-file') return file;
+        return '';
+      });
+
+      await run();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('dry-run-file', file);
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('commits', 1);
+
+      const { requests } = JSON.parse(readFileSync(file, 'utf8'));
+      const expectedSignature = `sha256=${createHmac('sha256', 'test-api-token-secret').update(requests[0].body).digest('hex')}`;
+      expect(requests).toHaveLength(1);
+      expect(requests[0].url).toBe(EXPECTED_INGEST_URL);
+      expect(requests[0].headers['X-Hub-Signature-256']).toBe(expectedSignature);
+      expect(JSON.parse(requests[0].body).commits[0].id).toBe('abc123');
+      rmSync(outDir, { recursive: true, force: true });
+    });
+
+    test('backfills into a throwaway checkpoint that is removed afterwards', async () => {
+      const outDir = mkdtempSync(join(tmpdir(), 'shiploud-dry-run-'));
+      const file = join(outDir, 'request.json');
+      const stateDirs = () => readdirSync(tmpdir()).filter(name => name.startsWith('shiploud-dry-run-'));
+      const before = stateDirs();
+      mockedCore.getInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-api-token-secret';
+        if (name === 'github-token') return 'test-github-token';
+        if (name === 'dry-run') return 'true';
+        if (name === 'dry-run-file') return file;
+        return '';
+      });
+      Object.assign(github.context, { eventName: 'workflow_dispatch', payload: { inputs: {} } });
+      const mockOctokit = {
+        paginate: jest.fn().mockResolvedValue([
+          { sha: 'c1', commit: { message: 'feat: old work', author: { name: 'Dev', email: 'dev@test.com' } } }
+        ]),
+        rest: { repos: { listCommits: jest.fn(), getCommit: jest.fn().mockResolvedValue({ data: { files: [] } }) } }
+      };
+      (github.getOctokit as jest.Mock).mockReturnValue(mockOctokit);
+
+      await run();
+
+      expect(mockedCore.setFailed).not.toHaveBeenCalled();
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('commits', 1);
+      expect(mockedCore.setOutput).not.toHaveBeenCalledWith('backfill-state', expect.anything());
+      expect(JSON.parse(readFileSync(file, 'utf8')).requests).toHaveLength(1);
+      expect(stateDirs()).toEqual(before);
+      rmSync(outDir, { recursive: true, force: true });
+    });
+  });
+
+  describe('run() with the outbox', () => {
+    test('keeps undelivered batches and resends them in flush-only mode', async () => {
+      const outboxDir = mkdtempSync(join(tmpdir(), 'shiploud-outbox-'));
+      const inputs = (extra: Record<string, string>) => (name: string) =>
+        ({ 'api-token': 'test-api-token-secret', 'outbox-dir': outboxDir, ...extra })[name] ?? '';
+      mockedCore.getInput.mockImplementation(inputs({}));
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        text: async () => 'schema mismatch'
+      });
+
+      await run();
+
+      expect(mockedCore.setFailed).toHaveBeenCalledWith(expect.stringContaining('Failed to deliver 1 of 1 batches'));
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('outbox-dir', outboxDir);
+      expect(readdirSync(outboxDir)).toHaveLength(1);
+
+      jest.clearAllMocks();
+      mockedCore.getInput.mockImplementation(inputs({ 'outbox-only': 'true' }));
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, text: async () => JSON.stringify({ ok: true }) });
+
+      await run();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).commits[0].id).toBe('abc123');
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('commits', 1);
+      expect(mockedCore.setFailed).not.toHaveBeenCalled();
+      expect(readdirSync(outboxDir)).toEqual([]);
+      rmSync(outboxDir, { recursive: true, force: true });
+    });
+
+    test('keeps only the commits a failed resend round left undelivered', async () => {
+      const outboxDir = mkdtempSync(join(tmpdir(), 'shiploud-outbox-'));
+      mockedCore.getInput.mockImplementation(
+        (name: string) => ({ 'api-token': 'test-api-token-secret', 'outbox-dir': outboxDir })[name] ?? ''
+      );
+      const commit = (id: string) => ({
+        id,
+        message: `commit ${id}`,
+        author: { name: 'Test User', email: 'test@example.com' },
+        timestamp: '2023-01-01T00:00:00Z',
+        url: `https://github.com/testowner/testrepo/commit/${id}`
+      });
+      Object.assign(github.context, {
+        eventName: 'push',
+        ref: 'refs/heads/main',
+        payload: { commits: [commit('abc123'), commit('def456')] }
+      });
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          text: async () => JSON.stringify({ rejected: [{ id: 'def456', reason: 'busy', retriable: true }] })
+        })
+        .mockResolvedValueOnce({ ok: false, status: 400, statusText: 'Bad Request', text: async () => 'nope' });
+
+      await run();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('exported-shas', '["abc123"]');
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('commits', 1);
+      expect(mockedCore.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'Failed to deliver 1 of 1 batches (1 commits accepted). Last error: 1 of 2 commits could not be resent'
+        )
+      );
+      const [file] = readdirSync(outboxDir);
+      const entry = JSON.parse(readFileSync(join(outboxDir, file), 'utf8'));
+      expect(entry.payload.commits.map((c: { id: string }) => c.id)).toEqual(['def456']);
+      rmSync(outboxDir, { recursive: true, force: true });
+    });
+
+    test('resends entries saved by an older release with the current schema version', async () => {
+      const outboxDir = mkdtempSync(join(tmpdir(), 'shiploud-outbox-'));
+      const commit = {
+        id: 'abc123',
+        message: 'Test commit message',
+        author: { name: 'Test User', email: 'test@example.com' },
+        timestamp: '2023-01-01T00:00:00Z',
+        url: 'https://github.com/testowner/testrepo/commit/abc123',
+        files: { added: [], modified: [], removed: [], total_changes: 0 }
+      };
+      const entry = {
+        version: 1,
+        created_at: new Date().toISOString(),
+        attempts: 1,
+        last_error: 'HTTP 503',
+        payload: { schema_version: '1.2', repo: 'testrepo', owner: 'testowner', commits: [commit] }
+      };
+      writeFileSync(join(outboxDir, '000000000000001-olderrelease.json'), JSON.stringify(entry));
+      mockedCore.getInput.mockImplementation(
+        (name: string) =>
+          ({ 'api-token': 'test-api-token-secret', 'outbox-dir': outboxDir, 'outbox-only': 'true' })[name] ?? ''
+      );
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, text: async () => JSON.stringify({ ok: true }) });
+
+      await run();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).schema_version).toBe(SCHEMA_VERSION);
+      expect(mockedCore.setFailed).not.toHaveBeenCalled();
+      expect(readdirSync(outboxDir)).toEqual([]);
+      rmSync(outboxDir, { recursive: true, force: true });
+    });
+  });
+
+  describe('run() with additional destinations', () => {
+    const useDestinations = (destinations: object[]) =>
+      mockedCore.getInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-api-token-secret';
+        if (name === 'destinations') return JSON.stringify(destinations);
+        return '';
+      });
+
+    test('delivers to every destination and only warns about failing secondaries', async () => {
+      useDestinations([
+        { name: 'changelog', url: 'https://changelog.internal/hook', secret: 'changelog-secret', format: 'shiploud' },
+        { name: 'slack', url: 'https://hooks.slack.com/services/T/B/X' }
+      ]);
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 200, text: async () => JSON.stringify({ ok: true }) })
+        .mockResolvedValueOnce({ ok: true, status: 200, text: async () => JSON.stringify({ ok: true }) })
+        .mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found', text: async () => 'no_service' });
+
+      await run();
+
+      expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+        EXPECTED_INGEST_URL,
+        'https://changelog.internal/hook',
+        'https://hooks.slack.com/services/T/B/X'
+      ]);
+      expect(JSON.parse(mockFetch.mock.calls[2][1].body).text).toContain('testowner/testrepo');
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('commits', 1);
+      const results: Array<{ name: string; delivered: number; failed: number }> = JSON.parse(
+        mockedCore.setOutput.mock.calls.find(([name]) => name === 'destinations')?.[1] as string
+      );
+      expect(results.map(({ name, delivered, failed }) => [name, delivered, failed])).toEqual([
+        ['shiploud.so', 1, 0],
+        ['changelog', 1, 0],
+        ['slack', 0, 1]
+      ]);
+      expect(mockedCore.warning).toHaveBeenCalledWith(expect.stringContaining('Delivery to destination "slack" failed'));
+      expect(mockedCore.setFailed).not.toHaveBeenCalled();
+    });
+
+    test('fails the step when a fatal destination misses a batch', async () => {
+      useDestinations([{ name: 'changelog', url: 'https://changelog.internal/hook', on_failure: 'fail' }]);
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 200, text: async () => JSON.stringify({ ok: true }) })
+        .mockResolvedValueOnce({ ok: false, status: 410, statusText: 'Gone', text: async () => '' });
+
+      await run();
+
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('commits', 1);
+      expect(mockedCore.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to deliver to destination(s) "changelog"')
+      );
+    });
+  });
+
+  describe('run() privacy controls', () => {
+    test('redacts secrets and hashes emails before sending', async () => {
+      const token = `ghp_${'x'.repeat(36)}`;
+      Object.assign(github.context, {
+        payload: {
+          commits: [
+            {
+              id: 'abc123',
+              message: `fix: remove leaked ${token}`,
+              author: { name: 'Test User', email: 'test@example.com' },
+              timestamp: '2023-01-01T00:00:00Z'
+            }
+          ]
+        }
+      });
+      mockedCore.getInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-api-token-secret';
+        if (name === 'author-email') return 'hash';
+        return '';
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ ok: true })
+      });
+
+      await run();
+
+      const rawBody: string = mockFetch.mock.calls[0][1].body;
+      const body = JSON.parse(rawBody);
+      expect(rawBody).not.toContain(token);
+      expect(rawBody).not.toContain('test@example.com');
+      expect(body.commits[0].message).toBe('fix: remove leaked [REDACTED]');
+      expect(body.commits[0].parsed).toEqual(
+        expect.objectContaining({ type: 'fix', subject: 'remove leaked [REDACTED]', breaking: false })
+      );
+      expect(body.commits[0].author.email).toMatch(/^[a-f0-9]{64}$/);
+      expect(mockedCore.warning).toHaveBeenCalledWith(expect.stringContaining('Redacted 1 secret(s)'));
+      expect(mockedCore.warning).not.toHaveBeenCalledWith(expect.stringContaining(token));
+    });
+  });
+
+  describe('run() commit filtering', () => {
+    const pushCommit = (id: string, message: string, name = 'Test User') => ({
+      id,
+      message,
+      author: { name, email: 'test@example.com' },
+      timestamp: '2023-01-01T00:00:00Z'
+    });
+
+    test('skips individual commits and reports the count', async () => {
+      Object.assign(github.context, {
+        payload: {
+          commits: [
+            pushCommit('abc123', 'feat: ship it'),
+            pushCommit('def456', 'chore: tweak ci [skip-story]'),
+            pushCommit('fed789', 'build(deps): bump jest', 'dependabot[bot]')
+          ]
+        }
+      });
+      mockedCore.getInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-api-token-secret';
+        if (name === 'exclude-bots') return 'true';
+        return '';
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ ok: true })
+      });
+
+      await run();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.commits.map((c: { id: string }) => c.id)).toEqual(['abc123']);
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('skipped', 2);
+      expect(mockedCore.info).toHaveBeenCalledWith(expect.stringContaining('Skipping fed789: bot author'));
+    });
+
+    test('applies settings from .shiploud.yml where inputs are empty', async () => {
+      const workspace = mkdtempSync(join(tmpdir(), 'shiploud-workspace-'));
+      writeFileSync(join(workspace, '.shiploud.yml'), 'exclude-bots: true\nskip-marker: "[wip]"\n');
+      process.env.GITHUB_WORKSPACE = workspace;
+      Object.assign(github.context, {
+        payload: {
+          commits: [
+            pushCommit('abc123', 'feat: ship it [skip-story]'),
+            pushCommit('def456', 'feat: half done [wip]'),
+            pushCommit('fed789', 'build(deps): bump jest', 'dependabot[bot]')
+          ]
+        }
+      });
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, text: async () => JSON.stringify({ ok: true }) });
+
+      try {
+        await run();
+      } finally {
+        delete process.env.GITHUB_WORKSPACE;
+        rmSync(workspace, { recursive: true, force: true });
+      }
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.commits.map((c: { id: string }) => c.id)).toEqual(['abc123']);
+      expect(mockedCore.info).toHaveBeenCalledWith('⚙️ Using settings from .shiploud.yml in the workspace');
+    });
+
+    test('sends nothing when every commit is skipped', async () => {
+      Object.assign(github.context, { payload: { commits: [pushCommit('def456', 'docs: typo [skip-story]')] } });
+
+      await run();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('commits', 0);
+      expect(mockedCore.setFailed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('run() with pull_request events', () => {
+    const pullRequest = {
+      number: 412,
+      title: 'New billing page',
+      body: 'Adds the new billing page',
+      html_url: 'https://github.com/testowner/testrepo/pull/412',
+      merged: true,
+      merge_commit_sha: 'merge123',
+      labels: [{ name: 'feature' }],
+      base: { ref: 'main' },
+      head: { ref: 'feature/billing' }
+    };
+
+    const mockOctokit = {
+      paginate: jest.fn(),
+      rest: {
+        pulls: { listCommits: jest.fn() },
+        repos: { getCommit: jest.fn() }
+      }
+    };
+
+    beforeEach(() => {
+      Object.assign(github.context, {
+        eventName: 'pull_request',
+        ref: 'refs/pull/412/merge',
+        payload: { action: 'closed', pull_request: pullRequest }
+      });
+      mockedCore.getInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-api-token-secret';
+        if (name === 'github-token') return 'test-github-token';
+        return '';
+      });
+      (github.getOctokit as jest.Mock).mockReturnValue(mockOctokit);
+      mockOctokit.paginate.mockResolvedValue([
+        {
+          sha: 'prsha1',
+          commit: {
+            message: 'feat: billing page',
+            author: { name: 'Dev User', email: 'dev@test.com', date: '2023-01-01T10:00:00Z' }
+          }
+        }
+      ]);
+      mockOctokit.rest.repos.getCommit.mockResolvedValue({
+        data: {
+          files: [{ filename: 'src/billing.ts', status: 'added' }],
+          stats: { additions: 10, deletions: 0 }
+        }
+      });
+    });
+
+    test('exports merged PR commits with PR metadata', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ ok: true })
+      });
+
+      await run();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.commits).toHaveLength(1);
+      expect(body.commits[0].id).toBe('prsha1');
+      expect(body.commits[0].files.added).toEqual(['src/billing.ts']);
+      expect(body.pull_request).toEqual({
+        number: 412,
+        title: 'New billing page',
+        body: 'Adds the new billing page',
+        url: 'https://github.com/testowner/testrepo/pull/412',
+        labels: ['feature'],
+        base_ref: 'main',
+        head_ref: 'feature/billing',
+        merge_commit_sha: 'merge123'
+      });
+      expect(mockedCore.info).toHaveBeenCalledWith('Branch: main');
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('commits', 1);
+    });
+
+    test('skips pull requests closed without merging', async () => {
+      github.context.payload = { action: 'closed', pull_request: { ...pullRequest, merged: false } };
+
+      await run();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('commits', 0);
+    });
+
+    test('fails when no GitHub token is available', async () => {
+      mockedCore.getInput.mockImplementation((name: string) => (name === 'api-token' ? 'test-api-token-secret' : ''));
+      const originalToken = process.env.GITHUB_TOKEN;
+      delete process.env.GITHUB_TOKEN;
+
+      await run();
+
+      if (originalToken !== undefined) process.env.GITHUB_TOKEN = originalToken;
+      expect(mockedCore.setFailed).toHaveBeenCalledWith('A GitHub token is required to export pull request commits');
+    });
+  });
+
+  describe('run() with release and tag events', () => {
+    const mockOctokit = {
+      paginate: jest.fn(),
+      rest: {
+        repos: { listTags: jest.fn(), compareCommitsWithBasehead: jest.fn(), getCommit: jest.fn() }
+      }
+    };
+
+    beforeEach(() => {
+      mockedCore.getInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-api-token-secret';
+        if (name === 'github-token') return 'test-github-token';
+        return '';
+      });
+      (github.getOctokit as jest.Mock).mockReturnValue(mockOctokit);
+      mockOctokit.paginate.mockResolvedValue([{ name: 'v1.1.0' }, { name: 'v1.0.0' }]);
+      mockOctokit.rest.repos.compareCommitsWithBasehead.mockResolvedValue({
+        data: {
+          status: 'ahead',
+          total_commits: 1,
+          commits: [
+            {
+              sha: 'relsha1',
+              commit: {
+                message: 'feat: ship it',
+                author: { name: 'Dev User', email: 'dev@test.com', date: '2023-01-01T10:00:00Z' }
+              }
+            }
+          ]
+        }
+      });
+      mockOctokit.rest.repos.getCommit.mockResolvedValue({ data: { files: [], stats: {} } });
+    });
+
+    test('exports a release-typed payload for published releases', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ ok: true })
+      });
+
+      Object.assign(github.context, {
+        eventName: 'release',
+        ref: 'refs/tags/v1.1.0',
+        payload: {
+          action: 'published',
+          release: { tag_name: 'v1.1.0', name: 'Billing', body: 'Notes', prerelease: false, target_commitish: 'main' }
+        }
+      });
+
+      await run();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.type).toBe('release');
+      expect(body.release).toEqual(
+        expect.objectContaining({ tag_name: 'v1.1.0', previous_tag: 'v1.0.0', name: 'Billing', body: 'Notes' })
+      );
+      expect(body.commits.map((c: { id: string }) => c.id)).toEqual(['relsha1']);
+      expect(mockOctokit.rest.repos.compareCommitsWithBasehead).toHaveBeenCalledWith(
+        expect.objectContaining({ basehead: 'v1.0.0...v1.1.0' })
+      );
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('commits', 1);
+    });
+
+    test('exports tag pushes as releases', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ ok: true })
+      });
+
+      Object.assign(github.context, {
+        eventName: 'push',
+        ref: 'refs/tags/v1.1.0',
+        payload: { ref: 'refs/tags/v1.1.0', commits: [] }
+      });
+
+      await run();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.type).toBe('release');
+      expect(body.release.tag_name).toBe('v1.1.0');
+      expect(body.release.name).toBeNull();
+      expect(mockedCore.info).toHaveBeenCalledWith('Branch: v1.1.0');
+    });
+
+    test('matches branch-policy against the branch a tag or release was cut from, not the tag', async () => {
+      mockedCore.getInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-api-token-secret';
+        if (name === 'github-token') return 'test-github-token';
+        if (name === 'branch-policy') return '$default=publish\n**=draft';
+        return '';
+      });
+      const accepted = { ok: true, status: 200, text: async () => JSON.stringify({ ok: true }) };
+      mockFetch.mockResolvedValueOnce(accepted).mockResolvedValueOnce(accepted).mockResolvedValueOnce(accepted);
+
+      Object.assign(github.context, {
+        eventName: 'push',
+        ref: 'refs/tags/v1.1.0',
+        payload: { ref: 'refs/tags/v1.1.0', base_ref: null, commits: [], repository: { default_branch: 'main' } }
+      });
+      await run();
+
+      Object.assign(github.context, {
+        eventName: 'release',
+        ref: 'refs/tags/v1.1.0',
+        payload: {
+          action: 'published',
+          repository: { default_branch: 'main' },
+          release: { tag_name: 'v1.1.0', name: 'Billing', body: null, target_commitish: 'f'.repeat(40) }
+        }
+      });
+      await run();
+
+      Object.assign(github.context, {
+        payload: {
+          action: 'published',
+          repository: { default_branch: 'main' },
+          release: { tag_name: 'v1.1.0', name: 'Billing', body: null, target_commitish: 'feature/beta' }
+        }
+      });
+      await run();
+
+      const bodies = mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body));
+      expect(bodies.map(body => [body.release.tag_name, body.draft])).toEqual([
+        ['v1.1.0', undefined],
+        ['v1.1.0', undefined],
+        ['v1.1.0', true]
+      ]);
+    });
+
+    test('skips releases that are not published', async () => {
+      Object.assign(github.context, {
+        eventName: 'release',
+        ref: 'refs/tags/v1.1.0',
+        payload: { action: 'created', release: { tag_name: 'v1.1.0' } }
+      });
+
+      await run();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('commits', 0);
+    });
+  });
+
+  describe('run() with workflow_run and check_suite events', () => {
+    const mockOctokit = {
+      rest: {
+        repos: { getCommit: jest.fn() },
+        checks: { listForRef: jest.fn() }
+      }
+    };
+    const pushRun = {
+      event: 'push',
+      head_sha: 'cisha1',
+      head_branch: 'main',
+      head_repository: { full_name: 'testowner/testrepo' }
+    };
+    const headCommit = {
+      id: 'cisha1',
+      message: 'fix: rounding',
+      author: { name: 'Dev User', email: 'dev@test.com' },
+      timestamp: '2023-01-01T10:00:00Z'
+    };
+
+    beforeEach(() => {
+      mockedCore.getInput.mockImplementation((name: string) => {
+        if (name === 'api-token') return 'test-api-token-secret';
+        if (name === 'github-token') return 'test-github-token';
+        if (name === 'check-status') return 'require';
+        return '';
+      });
+      (github.getOctokit as jest.Mock).mockReturnValue(mockOctokit);
+      mockOctokit.rest.repos.getCommit.mockResolvedValue({
+        data: {
+          files: [],
+          stats: { additions: 0, deletions: 0 },
+          commit: { verification: { verified: true, reason: 'valid' } },
+          committer: { login: 'octocat' }
+        }
+      });
+    });
+
+    test('exports the head commit of a completed workflow run once its checks are green', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, text: async () => JSON.stringify({ ok: true }) });
+      mockOctokit.rest.checks.listForRef.mockResolvedValue({
+        data: { total_count: 1, check_runs: [{ name: 'build', status: 'completed', conclusion: 'success' }] }
+      });
+      Object.assign(github.context, {
+        eventName: 'workflow_run',
+        ref: 'refs/heads/main',
+        payload: {
+          action: 'completed',
+          workflow_run: { ...pushRun, head_commit: headCommit }
+        }
+      });
+
+      await run();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.commits).toEqual([
+        expect.objectContaining({
+          id: 'cisha1',
+          checks: { conclusion: 'success', total: 1, failed: [] },
+          verification: { verified: true, reason: 'valid', signer: 'octocat' }
+        })
+      ]);
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('commits', 1);
+    });
+
+    test('holds back commits whose checks failed', async () => {
+      mockOctokit.rest.checks.listForRef.mockResolvedValue({
+        data: { total_count: 1, check_runs: [{ name: 'build', status: 'completed', conclusion: 'failure' }] }
+      });
+      Object.assign(github.context, {
+        eventName: 'workflow_run',
+        ref: 'refs/heads/main',
+        payload: {
+          action: 'completed',
+          workflow_run: { ...pushRun, head_commit: headCommit }
+        }
+      });
+
+      await run();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockedCore.setOutput).toHaveBeenCalledWith(
+        'skipped-shas',
+        JSON.stringify([{ sha: 'cisha1', reason: 'checks are failure' }])
+      );
+    });
+
+    test('skips runs for pull requests, forks and pull request check suites', async () => {
+      const forkCommit = { ...headCommit, id: 'ccc3333' };
+      const payloads = [
+        {
+          action: 'completed',
+          workflow_run: { ...pushRun, event: 'pull_request', head_sha: 'ccc3333', head_commit: forkCommit }
+        },
+        {
+          action: 'completed',
+          workflow_run: { ...pushRun, head_repository: { full_name: 'evil/r' }, head_commit: forkCommit }
+        },
+        {
+          action: 'completed',
+          check_suite: { head_sha: 'ccc3333', head_branch: 'feature', pull_requests: [{ number: 7 }] }
+        }
+      ];
+
+      for (const payload of payloads) {
+        Object.assign(github.context, {
+          eventName: 'workflow_run' in payload ? 'workflow_run' : 'check_suite',
+          ref: 'refs/heads/main',
+          payload
+        });
+        await run();
+      }
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockOctokit.rest.checks.listForRef).not.toHaveBeenCalled();
+      for (const eventName of ['workflow_run', 'check_suite']) {
+        expect(mockedCore.info).toHaveBeenCalledWith(
+          `${eventName} did not run for a push to this repository - nothing to export`
+        );
+      }
+    });
+
+    test('skips check suites that are not completed', async () => {
+      Object.assign(github.context, {
+        eventName: 'check_suite',
+        ref: 'refs/heads/main',
+        payload: { action: 'requested', check_suite: { head_sha: 'cisha1', head_branch: 'main' } }
+      });
+
+      await run();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('commits', 0);
+    });
+  });
+
   describe('sendToBuildinpublicSo()', () => {
-    const mockPayload = {
+    const mockPayload: IngestPayload = {
+      schema_version: SCHEMA_VERSION,
       repo: 'testrepo',
       owner: 'testowner',
-      branch: 'main',
       commits: [
         {
           id: 'abc123',
           message: 'Test commit',
           author: { name: 'Test User', email: 'test@example.com' },
           timestamp: '2023-01-01T00:00:00Z',
-          url: 'https://github.com/testowner/testrepo/commit/abc123'
+          url: 'https://github.com/testowner/testrepo/commit/abc123',
+          files: { added: [], modified: [], removed: [], total_changes: 0 }
         }
       ]
     };
@@ -198,24 +1138,26 @@ describe('GitHub Action for shiploud.so', () => {
         text: async () => JSON.stringify({ ok: true })
       });
 
-      const complexPayload = {
+      const complexPayload: IngestPayload = {
+        schema_version: SCHEMA_VERSION,
         repo: 'complex-repo',
         owner: 'testowner',
-        branch: 'main',
         commits: [
           {
             id: 'commit1',
             message: 'First commit with special chars',
             author: { name: 'Dev User', email: 'dev@test.com' },
             timestamp: '2023-01-01T10:00:00Z',
-            url: 'https://github.com/testowner/complex-repo/commit/commit1'
+            url: 'https://github.com/testowner/complex-repo/commit/commit1',
+            files: { added: [], modified: [], removed: [], total_changes: 0 }
           },
           {
             id: 'commit2',
             message: 'Second commit',
             author: { name: 'Another Dev', email: 'dev2@test.com' },
             timestamp: '2023-01-01T11:00:00Z',
-            url: 'https://github.com/testowner/complex-repo/commit/commit2'
+            url: 'https://github.com/testowner/complex-repo/commit/commit2',
+            files: { added: [], modified: [], removed: [], total_changes: 0 }
           }
         ]
       };
@@ -241,11 +1183,11 @@ describe('GitHub Action for shiploud.so', () => {
         text: async () => JSON.stringify({ ok: true, processed: 0 })
       });
 
-      const emptyPayload = {
+      const emptyPayload: IngestPayload = {
+        schema_version: SCHEMA_VERSION,
         repo: 'testrepo',
         owner: 'testowner',
-        branch: 'main',
-        commits: [] as any[]
+        commits: []
       };
 
       const startTime = Date.now();
@@ -266,17 +1208,18 @@ describe('GitHub Action for shiploud.so', () => {
       });
 
       const largeMessage = 'Large commit message: ' + 'x'.repeat(500);
-      const payload = {
+      const payload: IngestPayload = {
+        schema_version: SCHEMA_VERSION,
         repo: 'testrepo',
         owner: 'testowner',
-        branch: 'main',
         commits: [
           {
             id: 'large123',
             message: largeMessage,
             author: { name: 'Test User', email: 'test@example.com' },
             timestamp: '2023-01-01T00:00:00Z',
-            url: 'https://github.com/testowner/testrepo/commit/large123'
+            url: 'https://github.com/testowner/testrepo/commit/large123',
+            files: { added: [], modified: [], removed: [], total_changes: 0 }
           }
         ]
       };
@@ -338,24 +1281,26 @@ describe('GitHub Action for shiploud.so', () => {
         text: async () => JSON.stringify({ ok: true })
       });
 
-      const complexPayload = {
+      const complexPayload: IngestPayload = {
+        schema_version: SCHEMA_VERSION,
         repo: 'complex-repo',
         owner: 'testowner',
-        branch: 'main',
         commits: [
           {
             id: 'commit1',
             message: 'First commit with special chars',
             author: { name: 'Dev User', email: 'dev@test.com' },
             timestamp: '2023-01-01T10:00:00Z',
-            url: 'https://github.com/testowner/complex-repo/commit/commit1'
+            url: 'https://github.com/testowner/complex-repo/commit/commit1',
+            files: { added: [], modified: [], removed: [], total_changes: 0 }
           },
           {
             id: 'commit2',
             message: 'Second commit',
             author: { name: 'Another Dev', email: 'dev2@test.com' },
             timestamp: '2023-01-01T11:00:00Z',
-            url: 'https://github.com/testowner/complex-repo/commit/commit2'
+            url: 'https://github.com/testowner/complex-repo/commit/commit2',
+            files: { added: [], modified: [], removed: [], total_changes: 0 }
           }
         ]
       };
@@ -381,11 +1326,11 @@ describe('GitHub Action for shiploud.so', () => {
         text: async () => JSON.stringify({ ok: true, processed: 0 })
       });
 
-      const emptyPayload = {
+      const emptyPayload: IngestPayload = {
+        schema_version: SCHEMA_VERSION,
         repo: 'testrepo',
         owner: 'testowner',
-        branch: 'main',
-        commits: [] as any[]
+        commits: []
       };
 
       const startTime = Date.now();
@@ -464,17 +1409,18 @@ describe('GitHub Action for shiploud.so', () => {
   });
 
   describe('API Error Handling', () => {
-    const mockPayload = {
+    const mockPayload: IngestPayload = {
+      schema_version: SCHEMA_VERSION,
       repo: 'testrepo',
       owner: 'testowner',
-      branch: 'main',
       commits: [
         {
           id: 'test123',
           message: 'Test commit',
           author: { name: 'Test', email: 'test@example.com' },
           timestamp: '2023-01-01T00:00:00Z',
-          url: 'https://github.com/testowner/testrepo/commit/test123'
+          url: 'https://github.com/testowner/testrepo/commit/test123',
+          files: { added: [], modified: [], removed: [], total_changes: 0 }
         }
       ]
     };
@@ -494,7 +1440,7 @@ describe('GitHub Action for shiploud.so', () => {
       expect(mockFetch).toHaveBeenCalledTimes(5);
     });
 
-    test('handles HTTP error responses', async () => {
+    test('fails fast on client error responses', async () => {
       mockFetch.mockResolvedValue({
         ok: false,
         status: 422,
@@ -505,10 +1451,10 @@ describe('GitHub Action for shiploud.so', () => {
       const startTime = Date.now();
 
       await expect(sendToBuildinpublicSo(mockPayload, 'test-token', startTime)).rejects.toThrow(
-        'Failed after 5 attempts'
+        'API request failed: 422 Unprocessable Entity'
       );
 
-      expect(mockFetch).toHaveBeenCalledTimes(5);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
       expect(mockedCore.warning).toHaveBeenCalledWith(
         expect.stringContaining('API request failed: 422 Unprocessable Entity')
       );
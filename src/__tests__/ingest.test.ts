@@ -0,0 +1,23 @@
+import * as ingest from '../ingest';
+import { PAYLOAD_SCHEMA, validatePayload } from '../payload';
+import { verifyIngestSignature } from '../request';
+
+describe('package entry point', () => {
+  test('exports the published schema, its validator and the signature check', () => {
+    expect(ingest.PAYLOAD_SCHEMA).toBe(PAYLOAD_SCHEMA);
+    expect(ingest.validatePayload).toBe(validatePayload);
+    expect(ingest.verifyIngestSignature).toBe(verifyIngestSignature);
+    expect(Object.keys(ingest).sort()).toEqual([
+      'DEFAULT_SIGNATURE_TOLERANCE_SECONDS',
+      'DELIVERY_HEADER',
+      'IDEMPOTENCY_HEADER',
+      'PAYLOAD_SCHEMA',
+      'SCHEMA_VERSION',
+      'SIGNATURE_HEADER',
+      'TIMESTAMP_HEADER',
+      'assertValidPayload',
+      'validatePayload',
+      'verifyIngestSignature'
+    ]);
+  });
+});
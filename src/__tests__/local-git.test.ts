@@ -0,0 +1,60 @@
+import { parseGitLog, parseGitShow, parseRemoteUrl } from '../local-git';
+
+describe('local git reader', () => {
+  test('parseGitShow() combines raw statuses with numstat line counts, including renames and binaries', () => {
+    const output = [
+      ':100644 000000 587be6b 0000000 D', 'b.txt',
+      ':000000 100644 0000000 bdc955b A', 'bin.dat',
+      ':100644 100644 422c2b7 7562879 R066', 'a.txt', 'c.txt',
+      ':100644 100644 8ba3a16 9cd0b1e M', 'src/tab\tname.ts',
+      '0\t1\tb.txt',
+      '-\t-\tbin.dat',
+      '1\t0\t', 'a.txt', 'c.txt',
+      '4\t2\tsrc/tab\tname.ts',
+      ''
+    ].join('\0');
+
+    expect(parseGitShow(output)).toEqual({
+      files: [
+        { filename: 'b.txt', status: 'removed', additions: 0, deletions: 1 },
+        { filename: 'bin.dat', status: 'added', additions: 0, deletions: 0 },
+        { filename: 'c.txt', status: 'renamed', additions: 1, deletions: 0, previous_filename: 'a.txt' },
+        { filename: 'src/tab\tname.ts', status: 'modified', additions: 4, deletions: 2 }
+      ],
+      stats: { additions: 5, deletions: 3 }
+    });
+  });
+
+  test('parseGitLog() keeps multi-line messages and parents', () => {
+    const record = (fields: string[]) => fields.join('\x1f');
+    const output = [
+      record(['sha1', '', 'Dev User', 'dev@test.com', '2023-01-01T10:00:00+01:00', 'feat: first\n']),
+      record(['sha2', 'sha1', 'Dev User', 'dev@test.com', '2023-01-02T10:00:00+01:00', 'fix: second\n\nBody\n'])
+    ].join('\0');
+
+    expect(parseGitLog(output)).toEqual([
+      {
+        id: 'sha1',
+        message: 'feat: first',
+        author: { name: 'Dev User', email: 'dev@test.com' },
+        timestamp: '2023-01-01T10:00:00+01:00',
+        parents: []
+      },
+      {
+        id: 'sha2',
+        message: 'fix: second\n\nBody',
+        author: { name: 'Dev User', email: 'dev@test.com' },
+        timestamp: '2023-01-02T10:00:00+01:00',
+        parents: ['sha1']
+      }
+    ]);
+  });
+
+  test('parseRemoteUrl() understands https, ssh and scp-like remotes', () => {
+    const expected = { owner: 'testowner', repo: 'testrepo' };
+    expect(parseRemoteUrl('https://github.com/testowner/testrepo.git\n')).toEqual(expected);
+    expect(parseRemoteUrl('git@gitlab.example.com:testowner/testrepo.git')).toEqual(expected);
+    expect(parseRemoteUrl('ssh://git@host:2222/testowner/testrepo')).toEqual(expected);
+    expect(parseRemoteUrl('testrepo')).toBeNull();
+  });
+});
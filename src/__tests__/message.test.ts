@@ -0,0 +1,76 @@
+import { parseCommitMessage } from '../message';
+
+describe('parseCommitMessage()', () => {
+  test('parses a Conventional Commit with body and trailers', () => {
+    const result = parseCommitMessage(
+      [
+        'feat(billing)!: charge per seat',
+        '',
+        'Seats are counted at the start of each cycle.',
+        '',
+        'BREAKING CHANGE: the plan field is gone',
+        'Fixes #123',
+        'Co-authored-by: Pair Dev <pair@test.com>',
+        'Co-authored-by: Pair Dev <PAIR@test.com>'
+      ].join('\n')
+    );
+
+    expect(result).toEqual({
+      type: 'feat',
+      scope: 'billing',
+      subject: 'charge per seat',
+      body: 'Seats are counted at the start of each cycle.',
+      breaking: true,
+      trailers: [
+        { key: 'BREAKING CHANGE', value: 'the plan field is gone' },
+        { key: 'Fixes', value: '#123' },
+        { key: 'Co-authored-by', value: 'Pair Dev <pair@test.com>' },
+        { key: 'Co-authored-by', value: 'Pair Dev <PAIR@test.com>' }
+      ],
+      co_authors: [{ name: 'Pair Dev', email: 'pair@test.com' }],
+      issues: [{ repo: null, number: 123, action: 'closes' }]
+    });
+  });
+
+  test('passes non-conforming messages through unchanged', () => {
+    const result = parseCommitMessage("Merge branch 'main' into feature\n\nConflicts resolved by hand.");
+
+    expect(result).toEqual(
+      expect.objectContaining({
+        type: null,
+        scope: null,
+        subject: "Merge branch 'main' into feature",
+        body: 'Conflicts resolved by hand.',
+        breaking: false,
+        trailers: []
+      })
+    );
+  });
+
+  test('keeps a final paragraph that is not made of trailers in the body', () => {
+    const result = parseCommitMessage('fix: retry uploads\n\nThe API flakes.\nNot a trailer: but this line is');
+
+    expect(result.body).toBe('The API flakes.\nNot a trailer: but this line is');
+    expect(result.trailers).toEqual([]);
+  });
+
+  test('finds closing keywords and references anywhere', () => {
+    const result = parseCommitMessage(
+      'fix: handle empty carts, closes #7 and resolves acme/shop#9\n\nRefs: #7, #12\nSigned-off-by: Dev <dev@test.com>'
+    );
+
+    expect(result.issues).toEqual([
+      { repo: null, number: 7, action: 'closes' },
+      { repo: null, number: 12, action: 'references' },
+      { repo: 'acme/shop', number: 9, action: 'closes' }
+    ]);
+    expect(result.co_authors).toEqual([]);
+  });
+
+  test('folds continuation lines and handles co-authors without an email', () => {
+    const result = parseCommitMessage('docs: tidy\n\nReviewed-by: Someone\n  Else\nCo-authored-by: Pair Dev');
+
+    expect(result.trailers[0]).toEqual({ key: 'Reviewed-by', value: 'Someone Else' });
+    expect(result.co_authors).toEqual([{ name: 'Pair Dev' }]);
+  });
+});
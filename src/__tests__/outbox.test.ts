@@ -0,0 +1,95 @@
+import * as core from '@actions/core';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { OutboxOptions, flushOutbox, getOutboxOptions, loadOutbox, saveToOutbox } from '../outbox';
+import { Commit } from '../types';
+
+jest.mock('@actions/core');
+
+const commit = (id: string) => ({ id }) as Commit;
+const payload = (...ids: string[]) => ({ repo: 'testrepo', owner: 'testowner', commits: ids.map(commit) });
+
+describe('outbox', () => {
+  let dir: string;
+  const options = (overrides: Partial<OutboxOptions> = {}): OutboxOptions => ({
+    dir,
+    maxAgeMs: 60 * 60 * 1000,
+    flushOnly: false,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (core.getInput as jest.Mock).mockReturnValue('');
+    dir = mkdtempSync(join(tmpdir(), 'shiploud-outbox-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('getOutboxOptions() defaults to a week-long retention and rejects bad ages', () => {
+    expect(getOutboxOptions()).toEqual(
+      expect.objectContaining({ dir: expect.stringMatching(/\.shiploud[\\/]outbox$/), maxAgeMs: 168 * 3_600_000 })
+    );
+
+    (core.getInput as jest.Mock).mockImplementation((name: string) => (name === 'outbox-max-age' ? 'soon' : ''));
+    expect(() => getOutboxOptions()).toThrow('Invalid outbox-max-age "soon"');
+  });
+
+  test('saveToOutbox() stores the payload and skips commits that are already pending', () => {
+    saveToOutbox(dir, payload('a', 'b'), 'API request failed: 503');
+    const second = saveToOutbox(dir, payload('b', 'c'), 'timeout');
+    const duplicate = saveToOutbox(dir, payload('a', 'c'), 'timeout');
+
+    const entries = loadOutbox(dir);
+    expect(duplicate).toBeNull();
+    expect(entries.map(({ entry }) => entry.payload.commits.map(c => c.id))).toEqual([['a', 'b'], ['c']]);
+    expect(entries[0].entry).toEqual(
+      expect.objectContaining({ version: 1, attempts: 1, last_error: 'API request failed: 503' })
+    );
+    expect(JSON.parse(readFileSync(second as string, 'utf8')).payload.repo).toBe('testrepo');
+  });
+
+  test('flushOutbox() sends entries oldest first and removes delivered ones', async () => {
+    saveToOutbox(dir, payload('a'), 'down');
+    saveToOutbox(dir, payload('b'), 'down');
+    const send = jest.fn().mockResolvedValue(undefined);
+
+    const result = await flushOutbox(options(), send);
+
+    expect(send.mock.calls.map(([sent]) => sent.commits[0].id)).toEqual(['a', 'b']);
+    expect(result).toEqual({ delivered: ['a', 'b'], accepted: 2, pending: 0 });
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  test('flushOutbox() stops at the first failure and keeps the remaining entries', async () => {
+    saveToOutbox(dir, payload('a'), 'down');
+    saveToOutbox(dir, payload('b'), 'down');
+    const send = jest.fn().mockRejectedValue(new Error('still down'));
+
+    const result = await flushOutbox(options(), send);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(result.pending).toBe(2);
+    expect(loadOutbox(dir).map(({ entry }) => [entry.attempts, entry.last_error])).toEqual([
+      [2, 'still down'],
+      [1, 'down']
+    ]);
+  });
+
+  test('flushOutbox() drops expired entries and ignores unreadable files', async () => {
+    const file = saveToOutbox(dir, payload('a'), 'down') as string;
+    writeFileSync(join(dir, 'broken.json'), '{');
+    const send = jest.fn();
+
+    const result = await flushOutbox(options(), send, Date.now() + 2 * 60 * 60 * 1000);
+
+    expect(send).not.toHaveBeenCalled();
+    expect(result.delivered).toEqual([]);
+    expect(readdirSync(dir)).toEqual(['broken.json']);
+    expect(core.warning).toHaveBeenCalledWith(expect.stringContaining(`Dropping outbox entry ${file}`));
+    expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Ignoring unreadable outbox entry broken.json'));
+  });
+});
@@ -0,0 +1,106 @@
+import { splitIntoBatches } from '../batch';
+import { summarizeChanges } from '../breakdown';
+import { parseCommitMessage } from '../message';
+import { PAYLOAD_SCHEMA, SCHEMA_VERSION, toIngestPayload, validatePayload } from '../payload';
+import { Commit } from '../types';
+
+const change = {
+  filename: 'src/billing.ts',
+  status: 'renamed',
+  additions: 3,
+  deletions: 1,
+  previous_filename: 'src/bill.ts'
+};
+
+const commit = (overrides: Partial<Commit> = {}): Commit => ({
+  id: 'abc123',
+  message: 'feat(billing)!: invoices\n\nCloses #12\nCo-authored-by: Pair Dev <pair@test.com>',
+  author: { name: 'Dev User', email: 'dev@test.com' },
+  timestamp: '2023-01-01T10:00:00Z',
+  url: 'https://github.com/testowner/testrepo/commit/abc123',
+  parents: ['def456'],
+  additions: 3,
+  deletions: 1,
+  files: { added: [], modified: [], removed: [], changes: [change], total_changes: 1 },
+  breakdown: summarizeChanges([change]),
+  parsed: parseCommitMessage('feat(billing)!: invoices\n\nCloses #12\nCo-authored-by: Pair Dev <pair@test.com>'),
+  ...overrides
+});
+
+describe('ingest payload schema', () => {
+  test('the published schema and the exported version agree', () => {
+    expect(PAYLOAD_SCHEMA.properties?.schema_version.const).toBe(SCHEMA_VERSION);
+  });
+
+  test('accepts batched push, pull request and release payloads built by the action', () => {
+    const pullRequest = {
+      number: 412,
+      title: 'New billing page',
+      body: null,
+      url: 'https://github.com/testowner/testrepo/pull/412',
+      labels: ['feature'],
+      base_ref: 'main',
+      head_ref: 'feat/billing',
+      merge_commit_sha: 'merge123'
+    };
+    const release = {
+      tag_name: 'v1.2.0',
+      previous_tag: null,
+      name: 'v1.2.0',
+      body: null,
+      prerelease: false,
+      url: 'https://github.com/testowner/testrepo/releases/tag/v1.2.0'
+    };
+    const [batch] = splitIntoBatches(
+      { repo: 'testrepo', owner: 'testowner', commits: [commit()], pull_request: pullRequest },
+      { maxCommits: 100, maxBytes: 1024 * 1024 }
+    );
+
+    expect(validatePayload(toIngestPayload(batch))).toEqual([]);
+    const releasePayload = { repo: 'testrepo', owner: 'testowner', commits: [commit()], type: 'release', release };
+    expect(validatePayload({ schema_version: SCHEMA_VERSION, ...releasePayload })).toEqual([]);
+  });
+
+  test('reports each violation with its path', () => {
+    const withoutTotal = { added: [], modified: [], removed: [] } as unknown as Commit['files'];
+    const malformed = {
+      schema_version: '0.9',
+      repo: 'testrepo',
+      branch: 'main',
+      commits: [commit({ additions: -1, files: withoutTotal })]
+    };
+
+    expect(validatePayload(malformed)).toEqual([
+      'payload.owner is required',
+      'payload.schema_version must be "1.3"',
+      'payload.branch is not allowed',
+      'payload.commits[0].additions must be at least 0',
+      'payload.commits[0].files.total_changes is required'
+    ]);
+  });
+
+  test('toIngestPayload() stamps the schema version and refuses malformed batches', () => {
+    const payload = toIngestPayload({ repo: 'testrepo', owner: 'testowner', commits: [commit()] });
+    expect(payload.schema_version).toBe(SCHEMA_VERSION);
+
+    const stored = { schema_version: '1.2', repo: 'testrepo', owner: 'testowner', commits: [commit()] };
+    expect(toIngestPayload(stored).schema_version).toBe(SCHEMA_VERSION);
+
+    const withoutUrl = commit({ url: undefined as unknown as string });
+    expect(() => toIngestPayload({ repo: 'testrepo', owner: 'testowner', commits: [withoutUrl] })).toThrow(
+      'Invalid ingest payload: payload.commits[0].url is required'
+    );
+  });
+
+  test('throws on schema keywords it does not implement instead of ignoring them', () => {
+    const repo = PAYLOAD_SCHEMA.properties?.repo as Record<string, unknown>;
+    repo.pattern = '^[a-z]+$';
+    try {
+      expect(() => validatePayload({ schema_version: SCHEMA_VERSION, repo: 'Test', owner: 'o', commits: [] })).toThrow(
+        'Unsupported schema keyword "pattern" at payload.repo'
+      );
+    } finally {
+      delete repo.pattern;
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import { isMergedPullRequest, listPullRequestCommits, toPullRequestMetadata } from '../pull-request';
+import { Octokit } from '../types';
+
+jest.mock('@actions/core');
+
+describe('pull request support', () => {
+  const pullRequest = {
+    number: 412,
+    title: 'New billing page',
+    body: 'Adds the new billing page',
+    html_url: 'https://github.com/testowner/testrepo/pull/412',
+    merged: true,
+    merge_commit_sha: 'merge123',
+    labels: [{ name: 'feature' }, { name: 'billing' }],
+    base: { ref: 'main' },
+    head: { ref: 'feature/billing' }
+  };
+
+  describe('isMergedPullRequest()', () => {
+    test('accepts closed and merged pull requests', () => {
+      expect(isMergedPullRequest({ action: 'closed', pull_request: pullRequest })).toBe(true);
+    });
+
+    test('rejects pull requests closed without merging', () => {
+      expect(isMergedPullRequest({ action: 'closed', pull_request: { ...pullRequest, merged: false } })).toBe(false);
+    });
+
+    test('rejects other pull request actions', () => {
+      expect(isMergedPullRequest({ action: 'synchronize', pull_request: pullRequest })).toBe(false);
+    });
+  });
+
+  describe('toPullRequestMetadata()', () => {
+    test('extracts number, title, body, labels, refs and merge SHA', () => {
+      expect(toPullRequestMetadata(pullRequest)).toEqual({
+        number: 412,
+        title: 'New billing page',
+        body: 'Adds the new billing page',
+        url: 'https://github.com/testowner/testrepo/pull/412',
+        labels: ['feature', 'billing'],
+        base_ref: 'main',
+        head_ref: 'feature/billing',
+        merge_commit_sha: 'merge123'
+      });
+    });
+
+    test('handles missing body and labels', () => {
+      const metadata = toPullRequestMetadata({ ...pullRequest, body: null, labels: undefined });
+      expect(metadata.body).toBeNull();
+      expect(metadata.labels).toEqual([]);
+    });
+  });
+
+  describe('listPullRequestCommits()', () => {
+    test('pages through PR commits and normalizes them', async () => {
+      const listCommits = jest.fn();
+      const paginate = jest.fn().mockResolvedValue([
+        {
+          sha: 'sha1',
+          commit: {
+            message: 'feat: billing page',
+            author: { name: 'Dev User', email: 'dev@test.com', date: '2023-01-01T10:00:00Z' }
+          }
+        },
+        {
+          sha: 'sha2',
+          author: { login: 'octocat' },
+          commit: {
+            message: 'fix: typo',
+            author: null,
+            committer: { date: '2023-01-01T11:00:00Z' }
+          }
+        }
+      ]);
+      const octokit = { paginate, rest: { pulls: { listCommits } } } as unknown as Octokit;
+
+      const commits = await listPullRequestCommits(octokit, 'testowner', 'testrepo', 412);
+
+      expect(paginate).toHaveBeenCalledWith(listCommits, {
+        owner: 'testowner',
+        repo: 'testrepo',
+        pull_number: 412,
+        per_page: 100
+      });
+      expect(commits).toEqual([
+        {
+          id: 'sha1',
+          message: 'feat: billing page',
+          author: { name: 'Dev User', email: 'dev@test.com' },
+          timestamp: '2023-01-01T10:00:00Z'
+        },
+        {
+          id: 'sha2',
+          message: 'fix: typo',
+          author: { name: 'octocat', email: '' },
+          timestamp: '2023-01-01T11:00:00Z'
+        }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import * as core from '@actions/core';
+import { ZERO_SHA, isDeletedRef, resolvePushCommits, toPushMetadata } from '../push';
+import { Octokit } from '../types';
+
+jest.mock('@actions/core');
+
+const apiCommit = (sha: string) => ({
+  sha,
+  commit: {
+    message: `commit ${sha}`,
+    author: { name: 'Dev User', email: 'dev@test.com', date: '2023-01-01T10:00:00Z' }
+  }
+});
+
+const payloadCommit = (id: string) => ({
+  id,
+  message: `commit ${id}`,
+  author: { name: 'Dev User', email: 'dev@test.com' },
+  timestamp: '2023-01-01T10:00:00Z'
+});
+
+describe('push range resolution', () => {
+  const compareCommitsWithBasehead = jest.fn();
+  const octokit = { rest: { repos: { compareCommitsWithBasehead } } } as unknown as Octokit;
+
+  const basePayload = {
+    ref: 'refs/heads/main',
+    before: 'aaaaaaa',
+    after: 'bbbbbbb',
+    forced: false,
+    repository: { default_branch: 'main' },
+    commits: [payloadCommit('payload1')]
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('lists the full range via the compare API', async () => {
+    compareCommitsWithBasehead.mockResolvedValueOnce({
+      data: { total_commits: 2, commits: [apiCommit('c1'), apiCommit('c2')], files: [] }
+    });
+
+    const { commits, prefetched } = await resolvePushCommits(octokit, 'testowner', 'testrepo', basePayload);
+
+    expect(compareCommitsWithBasehead).toHaveBeenCalledWith(expect.objectContaining({ basehead: 'aaaaaaa...bbbbbbb' }));
+    expect(commits.map(c => c.id)).toEqual(['c1', 'c2']);
+    expect(prefetched.size).toBe(0);
+  });
+
+  test('reuses compare file data for single-commit pushes', async () => {
+    compareCommitsWithBasehead.mockResolvedValueOnce({
+      data: {
+        total_commits: 1,
+        commits: [apiCommit('c1')],
+        files: [
+          { filename: 'src/a.ts', status: 'modified', additions: 3, deletions: 1 },
+          { filename: 'src/b.ts', status: 'added', additions: 10, deletions: 0 }
+        ]
+      }
+    });
+
+    const { prefetched } = await resolvePushCommits(octokit, 'testowner', 'testrepo', basePayload);
+
+    expect(prefetched.get('c1')).toEqual({
+      files: expect.arrayContaining([expect.objectContaining({ filename: 'src/a.ts' })]),
+      stats: { additions: 13, deletions: 1 }
+    });
+  });
+
+  test('compares new branches against the default branch', async () => {
+    compareCommitsWithBasehead.mockResolvedValueOnce({ data: { total_commits: 1, commits: [apiCommit('c1')] } });
+
+    await resolvePushCommits(octokit, 'testowner', 'testrepo', {
+      ...basePayload,
+      ref: 'refs/heads/feature/x',
+      before: ZERO_SHA,
+      created: true
+    });
+
+    expect(compareCommitsWithBasehead).toHaveBeenCalledWith(expect.objectContaining({ basehead: 'main...bbbbbbb' }));
+  });
+
+  test('uses payload commits for a new default branch', async () => {
+    const { commits } = await resolvePushCommits(octokit, 'testowner', 'testrepo', {
+      ...basePayload,
+      before: ZERO_SHA
+    });
+
+    expect(compareCommitsWithBasehead).not.toHaveBeenCalled();
+    expect(commits.map(c => c.id)).toEqual(['payload1']);
+  });
+
+  test('falls back to payload commits when a force-pushed base is unreachable', async () => {
+    compareCommitsWithBasehead.mockRejectedValueOnce(Object.assign(new Error('Not Found'), { status: 404 }));
+
+    const { commits } = await resolvePushCommits(octokit, 'testowner', 'testrepo', { ...basePayload, forced: true });
+
+    expect(commits.map(c => c.id)).toEqual(['payload1']);
+    expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('force-push'));
+  });
+
+  test('warns about truncated payloads when no token is available', async () => {
+    const commits = Array.from({ length: 20 }, (_, i) => payloadCommit(`p${i}`));
+
+    const result = await resolvePushCommits(null, 'testowner', 'testrepo', { ...basePayload, commits });
+
+    expect(result.commits).toHaveLength(20);
+    expect(core.warning).toHaveBeenCalledWith(expect.stringContaining("GitHub's cap"));
+  });
+
+  test('detects deleted refs', () => {
+    expect(isDeletedRef({ deleted: true, after: ZERO_SHA })).toBe(true);
+    expect(isDeletedRef(basePayload)).toBe(false);
+    expect(isDeletedRef({ commits: [] })).toBe(false);
+  });
+
+  test('describes the push with server-relative compare and workflow run links', () => {
+    const payload = { ...basePayload, forced: true, pusher: { name: 'octocat', email: 'octocat@test.com' } };
+    expect(toPushMetadata(payload, 'main', 'https://ghe.example.com', 'testowner', 'testrepo', 42)).toEqual({
+      ref: 'refs/heads/main',
+      branch: 'main',
+      base_ref: null,
+      before: 'aaaaaaa',
+      after: 'bbbbbbb',
+      created: false,
+      deleted: false,
+      forced: true,
+      pusher: { name: 'octocat', email: 'octocat@test.com' },
+      compare_url: 'https://ghe.example.com/testowner/testrepo/compare/aaaaaaa...bbbbbbb',
+      workflow_run: { id: 42, url: 'https://ghe.example.com/testowner/testrepo/actions/runs/42' }
+    });
+  });
+
+  test('compares created branches against the default branch', () => {
+    const payload = { ...basePayload, ref: 'refs/heads/feature/x', before: ZERO_SHA, created: true };
+    const push = toPushMetadata(payload, 'feature/x', 'https://github.com', 'testowner', 'testrepo');
+    expect(push).toEqual(
+      expect.objectContaining({ before: null, created: true, pusher: null, workflow_run: null })
+    );
+    expect(push.compare_url).toBe('https://github.com/testowner/testrepo/compare/main...bbbbbbb');
+  });
+});
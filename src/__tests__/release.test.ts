@@ -0,0 +1,155 @@
+import {
+  compareTagNames,
+  findPreviousTag,
+  isPublishedRelease,
+  listReleaseCommits,
+  toReleaseMetadata
+} from '../release';
+import { Octokit } from '../types';
+
+jest.mock('@actions/core');
+
+const apiCommit = (sha: string, message: string) => ({
+  sha,
+  commit: {
+    message,
+    author: { name: 'Dev User', email: 'dev@test.com', date: '2023-01-01T10:00:00Z' }
+  }
+});
+
+describe('release support', () => {
+  describe('isPublishedRelease()', () => {
+    test('accepts published releases only', () => {
+      expect(isPublishedRelease({ action: 'published', release: { tag_name: 'v1.0.0' } })).toBe(true);
+      expect(isPublishedRelease({ action: 'created', release: { tag_name: 'v1.0.0' } })).toBe(false);
+    });
+  });
+
+  describe('toReleaseMetadata()', () => {
+    test('extracts release name, body and prerelease flag', () => {
+      const release = {
+        name: 'Billing',
+        body: 'Release notes',
+        prerelease: true,
+        html_url: 'https://github.com/testowner/testrepo/releases/tag/v1.1.0'
+      };
+
+      expect(toReleaseMetadata(release, 'v1.1.0', 'v1.0.0')).toEqual({
+        tag_name: 'v1.1.0',
+        previous_tag: 'v1.0.0',
+        name: 'Billing',
+        body: 'Release notes',
+        prerelease: true,
+        url: 'https://github.com/testowner/testrepo/releases/tag/v1.1.0'
+      });
+    });
+
+    test('falls back to bare tag metadata for tag pushes', () => {
+      expect(toReleaseMetadata(undefined, 'v1.1.0', null)).toEqual({
+        tag_name: 'v1.1.0',
+        previous_tag: null,
+        name: null,
+        body: null,
+        prerelease: false,
+        url: null
+      });
+    });
+  });
+
+  describe('compareTagNames()', () => {
+    test('sorts numeric segments naturally', () => {
+      expect(['v1.10.0', 'v1.2.0', 'v1.9.1'].sort(compareTagNames)).toEqual(['v1.2.0', 'v1.9.1', 'v1.10.0']);
+    });
+
+    test('sorts prereleases before their final version', () => {
+      const tags = ['v1.0.0', 'v1.0.0-rc.10', 'v0.9.0', 'v1.0.0-beta', 'v1.0.0-rc.2', 'v1.0.1-rc.1'];
+      expect(tags.sort(compareTagNames)).toEqual([
+        'v0.9.0',
+        'v1.0.0-beta',
+        'v1.0.0-rc.2',
+        'v1.0.0-rc.10',
+        'v1.0.0',
+        'v1.0.1-rc.1'
+      ]);
+    });
+  });
+
+  describe('findPreviousTag()', () => {
+    // Every tag is an ancestor of the release unless listed in `unreachable`
+    const octokitWithTags = (names: string[], unreachable: string[] = []) =>
+      ({
+        paginate: jest.fn().mockResolvedValue(names.map(name => ({ name }))),
+        rest: {
+          repos: {
+            listTags: jest.fn(),
+            compareCommitsWithBasehead: jest.fn(async ({ basehead }: { basehead: string }) => ({
+              data: { status: unreachable.includes(basehead.split('...')[0]) ? 'diverged' : 'ahead' }
+            }))
+          }
+        }
+      }) as unknown as Octokit;
+
+    test('returns the closest earlier tag', async () => {
+      const octokit = octokitWithTags(['v2.0.0', 'v1.10.0', 'v1.9.0', 'v1.2.0']);
+      await expect(findPreviousTag(octokit, 'testowner', 'testrepo', 'v1.10.0')).resolves.toBe('v1.9.0');
+    });
+
+    test('passes over prereleases of the previous version', async () => {
+      const octokit = octokitWithTags(['v1.0.1', 'v1.0.0-rc.2', 'v1.0.0', 'v1.0.0-rc.1']);
+      await expect(findPreviousTag(octokit, 'testowner', 'testrepo', 'v1.0.1')).resolves.toBe('v1.0.0');
+    });
+
+    test('skips tags that are not ancestors of the release', async () => {
+      const octokit = octokitWithTags(['v2.0.0', 'v1.9.1', 'v1.9.0'], ['v1.9.1']);
+
+      await expect(findPreviousTag(octokit, 'testowner', 'testrepo', 'v2.0.0')).resolves.toBe('v1.9.0');
+      expect(octokit.rest.repos.compareCommitsWithBasehead).toHaveBeenCalledWith(
+        expect.objectContaining({ basehead: 'v1.9.1...v2.0.0' })
+      );
+    });
+
+    test('returns null for the first tag', async () => {
+      const octokit = octokitWithTags(['v1.0.0']);
+      await expect(findPreviousTag(octokit, 'testowner', 'testrepo', 'v1.0.0')).resolves.toBeNull();
+    });
+
+    test('returns null when no earlier tag is reachable', async () => {
+      const octokit = octokitWithTags(['v1.1.0', 'v1.0.0'], ['v1.0.0']);
+      await expect(findPreviousTag(octokit, 'testowner', 'testrepo', 'v1.1.0')).resolves.toBeNull();
+    });
+  });
+
+  describe('listReleaseCommits()', () => {
+    test('pages through the compare range between tags', async () => {
+      const firstPage = Array.from({ length: 100 }, (_, i) => apiCommit(`sha${i}`, `commit ${i}`));
+      const compareCommitsWithBasehead = jest
+        .fn()
+        .mockResolvedValueOnce({ data: { total_commits: 101, commits: firstPage } })
+        .mockResolvedValueOnce({ data: { total_commits: 101, commits: [apiCommit('sha100', 'commit 100')] } });
+      const octokit = { rest: { repos: { compareCommitsWithBasehead } } } as unknown as Octokit;
+
+      const commits = await listReleaseCommits(octokit, 'testowner', 'testrepo', 'v1.1.0', 'v1.0.0');
+
+      expect(compareCommitsWithBasehead).toHaveBeenCalledTimes(2);
+      expect(compareCommitsWithBasehead).toHaveBeenCalledWith(
+        expect.objectContaining({ basehead: 'v1.0.0...v1.1.0', page: 2 })
+      );
+      expect(commits).toHaveLength(101);
+      expect(commits[100]).toEqual({
+        id: 'sha100',
+        message: 'commit 100',
+        author: { name: 'Dev User', email: 'dev@test.com' },
+        timestamp: '2023-01-01T10:00:00Z'
+      });
+    });
+
+    test('walks recent history oldest-first when there is no previous tag', async () => {
+      const paginate = jest.fn().mockResolvedValue([apiCommit('newer', 'second'), apiCommit('older', 'first')]);
+      const octokit = { paginate, rest: { repos: { listCommits: jest.fn() } } } as unknown as Octokit;
+
+      const commits = await listReleaseCommits(octokit, 'testowner', 'testrepo', 'v1.0.0', null);
+
+      expect(commits.map(c => c.id)).toEqual(['older', 'newer']);
+    });
+  });
+});
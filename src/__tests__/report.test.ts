@@ -0,0 +1,130 @@
+import * as core from '@actions/core';
+import { createHash } from 'crypto';
+import {
+  createRunReport,
+  extractApiReferences,
+  payloadDigest,
+  recordBatch,
+  recordIngestResult,
+  setReportOutputs,
+  writeRunSummary
+} from '../report';
+import { Commit } from '../types';
+
+jest.mock('@actions/core');
+
+const commit = (id: string): Commit => ({
+  id,
+  message: `feat: ${id} <script>\n\nbody`,
+  author: { name: 'Dev', email: 'dev@test.com' },
+  timestamp: '2023-01-01T10:00:00Z',
+  url: `https://github.com/testowner/testrepo/commit/${id}`,
+  additions: 3,
+  deletions: 1,
+  files: { added: ['a.ts'], modified: [], removed: [], total_changes: 1 }
+});
+
+describe('run report', () => {
+  const originalSummary = process.env.GITHUB_STEP_SUMMARY;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    if (originalSummary === undefined) {
+      delete process.env.GITHUB_STEP_SUMMARY;
+    } else {
+      process.env.GITHUB_STEP_SUMMARY = originalSummary;
+    }
+  });
+
+  test('extractApiReferences() finds ids and links at any level', () => {
+    const response = JSON.stringify({
+      ok: true,
+      story_id: 42,
+      cards: [{ id: 'card-1', card_url: 'https://shiploud.so/c/1' }, { id: 'card-2', url: 'not-a-link' }]
+    });
+
+    expect(extractApiReferences(response)).toEqual({
+      ids: ['42', 'card-1', 'card-2'],
+      urls: ['https://shiploud.so/c/1']
+    });
+    expect(extractApiReferences('not json')).toEqual({ ids: [], urls: [] });
+  });
+
+  test('extractApiReferences() ignores the per-commit result lists', () => {
+    const response = JSON.stringify({
+      accepted: [{ id: 'aaa1111' }],
+      rejected: [{ id: 'bbb2222', reason: 'too large' }],
+      duplicates: [{ sha: 'ccc3333', id: 'ccc3333' }],
+      story_id: 'st1'
+    });
+
+    expect(extractApiReferences(response)).toEqual({ ids: ['st1'], urls: [] });
+  });
+
+  test('setReportOutputs() exposes exported and skipped SHAs, digest and batch count', () => {
+    const report = createRunReport();
+    const batches = [{ commits: [commit('sha1')] }, { commits: [commit('sha2')] }];
+    recordIngestResult(report, batches[0], { accepted: ['sha1'], rejected: [], duplicates: [] }, [
+      JSON.stringify({ id: 'story-1' })
+    ]);
+    recordBatch(report, batches[1], 'failed');
+    report.skipped.push({ id: 'sha3', reason: 'merge commit' });
+
+    setReportOutputs(report);
+
+    const digest = createHash('sha256')
+      .update(batches.map(batch => JSON.stringify(batch)).join('\n'))
+      .digest('hex');
+    expect(payloadDigest(report)).toBe(digest);
+    expect(core.setOutput).toHaveBeenCalledWith('exported-shas', '["sha1"]');
+    expect(core.setOutput).toHaveBeenCalledWith('skipped-shas', '[{"sha":"sha3","reason":"merge commit"}]');
+    expect(core.setOutput).toHaveBeenCalledWith('payload-sha256', digest);
+    expect(core.setOutput).toHaveBeenCalledWith('batches', 2);
+    expect(core.setOutput).toHaveBeenCalledWith('api-ids', '["story-1"]');
+  });
+
+  test("recordIngestResult() keeps each commit's verdict", () => {
+    const report = createRunReport();
+    recordIngestResult(
+      report,
+      { commits: [commit('sha1'), commit('sha2'), commit('sha3')] },
+      { accepted: ['sha1'], rejected: [{ id: 'sha2', reason: 'too large', retriable: false }], duplicates: ['sha3'] },
+      []
+    );
+
+    setReportOutputs(report);
+
+    expect(report.commits.map(({ status, reason }) => [status, reason])).toEqual([
+      ['delivered', undefined],
+      ['rejected', 'too large'],
+      ['duplicate', undefined]
+    ]);
+    expect(core.setOutput).toHaveBeenCalledWith('exported-shas', '["sha1","sha3"]');
+    expect(core.setOutput).toHaveBeenCalledWith('rejected-shas', '[{"sha":"sha2","reason":"too large"}]');
+  });
+
+  test('writeRunSummary() renders a row per commit with its status', async () => {
+    process.env.GITHUB_STEP_SUMMARY = '/tmp/summary.md';
+    const report = createRunReport();
+    recordBatch(report, { commits: [commit('abcdef123')] }, 'dry run');
+    report.skipped.push({ id: 'fedcba987', reason: 'bot author "renovate"' });
+
+    await writeRunSummary(report);
+
+    const rows = (core.summary.addTable as jest.Mock).mock.calls[0][0];
+    expect(rows[1]).toEqual(['abcdef1', 'feat: abcdef123 &lt;script&gt;', '1', '+3 -1', '📝 dry run']);
+    expect(rows[2][4]).toBe('⏭️ skipped: bot author "renovate"');
+    expect(core.summary.write).toHaveBeenCalled();
+  });
+
+  test('writeRunSummary() is skipped without a job summary file', async () => {
+    delete process.env.GITHUB_STEP_SUMMARY;
+
+    await writeRunSummary(createRunReport());
+
+    expect(core.summary.write).not.toHaveBeenCalled();
+  });
+});
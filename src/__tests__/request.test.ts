@@ -0,0 +1,71 @@
+import { createHmac } from 'crypto';
+import {
+  DELIVERY_HEADER,
+  IDEMPOTENCY_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  buildIngestRequest,
+  verifyIngestSignature
+} from '../request';
+
+jest.mock('@actions/core');
+
+const payload = {
+  repo: 'testrepo',
+  owner: 'testowner',
+  commits: [{ id: 'abc123' }, { id: 'def456' }]
+};
+
+describe('ingest request signing', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z');
+  const timestamp = now / 1000;
+
+  test('signs the timestamp and delivery ID together with the body', () => {
+    const request = buildIngestRequest(payload, 'secret', { deliveryId: 'delivery-1', timestamp });
+
+    const expected = createHmac('sha256', 'secret').update(`${timestamp}.delivery-1.${request.body}`).digest('hex');
+    expect(request.headers[SIGNATURE_HEADER]).toBe(`sha256=${expected}`);
+    expect(request.headers[TIMESTAMP_HEADER]).toBe(String(timestamp));
+    expect(request.headers[DELIVERY_HEADER]).toBe('delivery-1');
+    // Body-only signature kept for servers that have not migrated
+    expect(request.headers['X-Hub-Signature-256']).toBe(
+      `sha256=${createHmac('sha256', 'secret').update(request.body).digest('hex')}`
+    );
+  });
+
+  test('uses a fresh delivery ID per request but a stable idempotency key', () => {
+    const first = buildIngestRequest(payload, 'secret');
+    const retry = buildIngestRequest(payload, 'secret');
+    const release = buildIngestRequest({ ...payload, type: 'release' }, 'secret');
+
+    expect(first.headers[DELIVERY_HEADER]).not.toBe(retry.headers[DELIVERY_HEADER]);
+    expect(first.headers[IDEMPOTENCY_HEADER]).toMatch(/^[a-f0-9]{64}$/);
+    expect(retry.headers[IDEMPOTENCY_HEADER]).toBe(first.headers[IDEMPOTENCY_HEADER]);
+    expect(release.headers[IDEMPOTENCY_HEADER]).not.toBe(first.headers[IDEMPOTENCY_HEADER]);
+  });
+
+  describe('verifyIngestSignature()', () => {
+    const request = buildIngestRequest(payload, 'secret', { deliveryId: 'delivery-1', timestamp });
+
+    test('accepts a genuine request with case-insensitive headers', () => {
+      const lowercased = Object.fromEntries(Object.entries(request.headers).map(([k, v]) => [k.toLowerCase(), v]));
+      expect(verifyIngestSignature(lowercased, request.body, 'secret', { now })).toEqual({ valid: true });
+    });
+
+    test('rejects tampering, wrong secrets and stale timestamps', () => {
+      expect(verifyIngestSignature(request.headers, request.body.replace('abc123', 'evil'), 'secret', { now })).toEqual({
+        valid: false,
+        reason: 'signature mismatch'
+      });
+      expect(verifyIngestSignature(request.headers, request.body, 'other', { now }).valid).toBe(false);
+      expect(verifyIngestSignature(request.headers, request.body, 'secret', { now: now + 301_000 })).toEqual({
+        valid: false,
+        reason: 'timestamp outside the tolerance window'
+      });
+      expect(
+        verifyIngestSignature({ ...request.headers, [DELIVERY_HEADER]: 'delivery-2' }, request.body, 'secret', { now })
+          .valid
+      ).toBe(false);
+    });
+  });
+});
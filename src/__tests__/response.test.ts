@@ -0,0 +1,111 @@
+import * as core from '@actions/core';
+import { DEFAULT_DELIVERY_OPTIONS } from '../delivery';
+import { parseIngestResponse, sendWithResend } from '../response';
+import { Commit } from '../types';
+
+jest.mock('@actions/core');
+
+const commit = (id: string) => ({ id }) as Commit;
+
+describe('ingest responses', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('parseIngestResponse()', () => {
+    test('treats responses without result lists as accepting everything', () => {
+      expect(parseIngestResponse('{"ok":true}', ['a', 'b'])).toEqual({
+        accepted: ['a', 'b'],
+        rejected: [],
+        duplicates: []
+      });
+    });
+
+    test('reads rejections with reasons and duplicates by id or sha', () => {
+      const response = JSON.stringify({
+        accepted: ['a'],
+        rejected: [
+          { id: 'b', reason: 'message too large' },
+          { sha: 'c', error: 'still processing', retryable: true },
+          { id: 'unknown', reason: 'not in this request' }
+        ],
+        duplicates: [{ sha: 'd' }]
+      });
+
+      expect(parseIngestResponse(response, ['a', 'b', 'c', 'd'])).toEqual({
+        accepted: ['a'],
+        rejected: [
+          { id: 'b', reason: 'message too large', retriable: false },
+          { id: 'c', reason: 'still processing', retriable: true }
+        ],
+        duplicates: ['d']
+      });
+    });
+  });
+
+  describe('sendWithResend()', () => {
+    const options = { ...DEFAULT_DELIVERY_OPTIONS, maxAttempts: 3, sleep: jest.fn().mockResolvedValue(undefined) };
+
+    test('resends only retriable rejections', async () => {
+      const send = jest
+        .fn()
+        .mockResolvedValueOnce(
+          JSON.stringify({
+            rejected: [
+              { id: 'b', reason: 'busy', retriable: true },
+              { id: 'c', reason: 'repository not connected' }
+            ],
+            duplicates: ['d']
+          })
+        )
+        .mockResolvedValueOnce(JSON.stringify({ accepted: ['b'] }));
+
+      const result = await sendWithResend(
+        { repo: 'r', commits: ['a', 'b', 'c', 'd'].map(commit) },
+        send,
+        options
+      );
+
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(send.mock.calls[1][0]).toEqual({ repo: 'r', commits: [commit('b')] });
+      expect(result).toEqual({
+        accepted: ['a', 'b'],
+        rejected: [{ id: 'c', reason: 'repository not connected', retriable: false }],
+        duplicates: ['d']
+      });
+      expect(core.warning).toHaveBeenCalledWith(
+        '⚠️ Commit c was rejected by the ingest API: repository not connected'
+      );
+    });
+
+    test('keeps what was accepted when a resend round fails', async () => {
+      const send = jest
+        .fn()
+        .mockResolvedValueOnce(JSON.stringify({ rejected: [{ id: 'b', reason: 'busy', retriable: true }] }))
+        .mockRejectedValueOnce(new Error('HTTP 503: Service Unavailable'));
+
+      const result = await sendWithResend({ commits: ['a', 'b'].map(commit) }, send, options);
+
+      expect(result).toEqual({
+        accepted: ['a'],
+        rejected: [],
+        duplicates: [],
+        undelivered: { ids: ['b'], error: 'HTTP 503: Service Unavailable' }
+      });
+    });
+
+    test('propagates a failure of the first round', async () => {
+      const send = jest.fn().mockRejectedValue(new Error('HTTP 503: Service Unavailable'));
+      await expect(sendWithResend({ commits: [commit('a')] }, send, options)).rejects.toThrow('HTTP 503');
+    });
+
+    test('gives up on retriable rejections after maxAttempts rounds', async () => {
+      const send = jest.fn().mockResolvedValue(JSON.stringify({ rejected: [{ id: 'a', reason: 'busy', retriable: true }] }));
+
+      const result = await sendWithResend({ commits: [commit('a')] }, send, options);
+
+      expect(send).toHaveBeenCalledTimes(3);
+      expect(result.rejected).toEqual([{ id: 'a', reason: 'busy', retriable: true }]);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import * as core from '@actions/core';
+import { commitUrl, getGitHubServer } from '../server';
+
+jest.mock('@actions/core');
+
+describe('GitHub server URLs', () => {
+  const mockedGetInput = core.getInput as jest.MockedFunction<typeof core.getInput>;
+  const inputs = (values: Record<string, string>) =>
+    mockedGetInput.mockImplementation((name: string) => values[name] ?? '');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    inputs({});
+  });
+
+  test('uses the context URLs and falls back to github.com', () => {
+    expect(getGitHubServer({})).toEqual({ serverUrl: 'https://github.com', apiUrl: 'https://api.github.com' });
+    const context = { serverUrl: 'https://ghe.example.com/', apiUrl: 'https://ghe.example.com/api/v3' };
+    expect(getGitHubServer(context)).toEqual({
+      serverUrl: 'https://ghe.example.com',
+      apiUrl: 'https://ghe.example.com/api/v3'
+    });
+  });
+
+  test('lets inputs override the context, deriving the API URL of an overridden Enterprise Server', () => {
+    inputs({ 'github-server-url': 'https://ghe.example.com' });
+    expect(getGitHubServer({ serverUrl: 'https://github.com', apiUrl: 'https://api.github.com' })).toEqual({
+      serverUrl: 'https://ghe.example.com',
+      apiUrl: 'https://ghe.example.com/api/v3'
+    });
+
+    inputs({ 'github-server-url': 'https://ghe.example.com', 'github-api-url': 'https://api.ghe.example.com/' });
+    expect(getGitHubServer({}).apiUrl).toBe('https://api.ghe.example.com');
+
+    inputs({ 'github-api-url': 'ghe.example.com' });
+    expect(() => getGitHubServer({})).toThrow('Invalid github-api-url "ghe.example.com" - expected an http(s) URL');
+  });
+
+  test('commitUrl() links to the commit on the given server', () => {
+    expect(commitUrl('https://ghe.example.com', 'testowner', 'testrepo', 'abc123')).toBe(
+      'https://ghe.example.com/testowner/testrepo/commit/abc123'
+    );
+  });
+});
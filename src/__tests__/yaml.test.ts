@@ -0,0 +1,55 @@
+import { parseYaml } from '../yaml';
+
+describe('parseYaml()', () => {
+  test('parses nested mappings, sequences and scalars', () => {
+    const source = [
+      '# shiploud settings',
+      'exclude-bots: true',
+      'batch-max-commits: 50   # smaller requests',
+      'outbox-max-age: 12.5',
+      "skip-marker: '[wip]'",
+      'ingest-url: https://ingest.example.com/hook#frag',
+      'exclude-commit-paths:',
+      '  - "docs/**"',
+      '  - "*.md"',
+      'mask-paths: [secret/, "a, b"]',
+      'destinations:',
+      '- name: changelog',
+      '  url: https://changelog.internal/ingest',
+      '  max_attempts: 2',
+      '-',
+      '  name: slack',
+      'empty:',
+      'nested:',
+      '  inner:',
+      '    value: "tab\\there"'
+    ].join('\n');
+
+    expect(parseYaml(source)).toEqual({
+      'exclude-bots': true,
+      'batch-max-commits': 50,
+      'outbox-max-age': 12.5,
+      'skip-marker': '[wip]',
+      'ingest-url': 'https://ingest.example.com/hook#frag',
+      'exclude-commit-paths': ['docs/**', '*.md'],
+      'mask-paths': ['secret/', 'a, b'],
+      'destinations': [{ name: 'changelog', url: 'https://changelog.internal/ingest', max_attempts: 2 }, { name: 'slack' }],
+      'empty': null,
+      'nested': { inner: { value: 'tab\there' } }
+    });
+  });
+
+  test('treats empty documents as null', () => {
+    expect(parseYaml('---\n# nothing here\n')).toBeNull();
+  });
+
+  test('reports the line of malformed content', () => {
+    expect(() => parseYaml('key: a: b')).toThrow('Nested mappings are not allowed in compact mappings at line 1');
+    expect(() => parseYaml('a: 1\na: 2')).toThrow('Map keys must be unique at line 2');
+    expect(() => parseYaml('a: "open')).toThrow('Missing closing "quote at line 1');
+    expect(() => parseYaml('a: 1\njust text')).toThrow('at line 2');
+    expect(() => parseYaml('a:\n\t- b')).toThrow('Tabs are not allowed as indentation at line 2');
+    expect(() => parseYaml('a: !custom x')).toThrow('Unresolved tag: !custom at line 1');
+    expect(() => parseYaml('a: 1\n---\nb: 2')).toThrow('multiple documents are not supported');
+  });
+});
@@ -0,0 +1,178 @@
+import * as core from '@actions/core';
+import { getInput } from './config';
+import { DEFAULT_GITHUB_RETRY_OPTIONS, GitHubRetryOptions, createRateLimitState, withGitHubRetry } from './github-retry';
+import { IssueReference } from './message';
+import { PullRequestMetadata, listPullRequestCommits } from './pull-request';
+import { Commit, Octokit } from './types';
+
+export interface LinkedPullRequest {
+  number: number;
+  title: string;
+  url: string;
+  labels: string[];
+}
+
+export interface LinkedIssue extends IssueReference {
+  // null when the issue could not be read (deleted, private or in another repository without access)
+  title: string | null;
+  url: string | null;
+}
+
+/**
+ * Pull requests a commit belongs to and the issues its message closes or references
+ */
+export interface CommitAssociations {
+  pull_requests: LinkedPullRequest[];
+  issues: LinkedIssue[];
+}
+
+export interface AssociationOptions {
+  enabled: boolean;
+  retry: GitHubRetryOptions;
+}
+
+/**
+ * Lookups already made during this run, shared by every batch
+ */
+export interface AssociationCache {
+  pullRequests: Map<string, LinkedPullRequest[]>;
+  issues: Map<string, Pick<LinkedIssue, 'title' | 'url'>>;
+}
+
+/**
+ * Read association options from action inputs; linking is off unless link-associations is true
+ */
+export function getAssociationOptions(): AssociationOptions {
+  return {
+    enabled: getInput('link-associations').trim().toLowerCase() === 'true',
+    retry: DEFAULT_GITHUB_RETRY_OPTIONS
+  };
+}
+
+export function createAssociationCache(): AssociationCache {
+  return { pullRequests: new Map(), issues: new Map() };
+}
+
+/**
+ * Record that every listed commit belongs to a pull request already known from the event
+ */
+export function seedPullRequest(cache: AssociationCache, pullRequest: PullRequestMetadata, shas: string[]): void {
+  const linked = toLinkedPullRequest(pullRequest);
+  shas.forEach(sha => cache.pullRequests.set(sha, [linked]));
+}
+
+// Either the event's pull request metadata or a pull request from the REST API
+function toLinkedPullRequest(pullRequest: {
+  number: number;
+  title: string;
+  url: string;
+  html_url?: string;
+  labels?: Array<string | { name: string }>;
+}): LinkedPullRequest {
+  return {
+    number: pullRequest.number,
+    title: pullRequest.title,
+    url: pullRequest.html_url ?? pullRequest.url,
+    labels: (pullRequest.labels || []).map(label => (typeof label === 'string' ? label : label.name))
+  };
+}
+
+/**
+ * Attach associated pull requests and referenced issues to each commit. Commits are looked up in order,
+ * and the commits of every pull request found are cached, so a push of many commits from one pull request
+ * costs two requests instead of one per commit. Lookup failures only leave the association out.
+ */
+export async function linkAssociations(
+  commits: Commit[],
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  cache: AssociationCache,
+  options: AssociationOptions,
+  redact: (text: string) => string = text => text
+): Promise<Commit[]> {
+  const rateLimit = createRateLimitState();
+  const pending = new Set(commits.map(commit => commit.id));
+  let lookups = 0;
+
+  const pullRequestsFor = async (sha: string): Promise<LinkedPullRequest[]> => {
+    const cached = cache.pullRequests.get(sha);
+    if (cached) return cached;
+
+    lookups++;
+    const { data } = await withGitHubRetry(
+      () => octokit.rest.repos.listPullRequestsAssociatedWithCommit({ owner, repo, commit_sha: sha }),
+      rateLimit,
+      options.retry
+    );
+    const linked = data.map(toLinkedPullRequest);
+    cache.pullRequests.set(sha, linked);
+
+    // Other commits of the same pull request are answered from its commit list; a commit that also
+    // belongs to another pull request is then only linked to the first one found
+    const unresolved = [...pending].some(id => id !== sha && !cache.pullRequests.has(id));
+    for (const pullRequest of unresolved ? linked : []) {
+      lookups++;
+      try {
+        const prCommits = await listPullRequestCommits(octokit, owner, repo, pullRequest.number);
+        for (const { id } of prCommits) {
+          const known = cache.pullRequests.get(id) ?? [];
+          if (!known.some(pr => pr.number === pullRequest.number)) {
+            cache.pullRequests.set(id, [...known, pullRequest]);
+          }
+        }
+      } catch (error) {
+        core.info(`Could not list the commits of #${pullRequest.number} - looking up the others one by one`);
+      }
+    }
+    return linked;
+  };
+
+  const issueFor = async (reference: IssueReference): Promise<LinkedIssue> => {
+    const [issueOwner, issueRepo] = reference.repo ? reference.repo.split('/') : [owner, repo];
+    const key = `${issueOwner}/${issueRepo}#${reference.number}`.toLowerCase();
+    let details = cache.issues.get(key);
+    if (!details) {
+      lookups++;
+      try {
+        const { data } = await withGitHubRetry(
+          () => octokit.rest.issues.get({ owner: issueOwner, repo: issueRepo, issue_number: reference.number }),
+          rateLimit,
+          options.retry
+        );
+        details = { title: data.title, url: data.html_url };
+      } catch (error) {
+        core.warning(`Could not read issue ${key}: ${error instanceof Error ? error.message : error}`);
+        details = { title: null, url: null };
+      }
+      cache.issues.set(key, details);
+    }
+    return { ...reference, ...details };
+  };
+
+  const linked: Commit[] = [];
+  for (const commit of commits) {
+    let pullRequests: LinkedPullRequest[] = [];
+    try {
+      pullRequests = await pullRequestsFor(commit.id);
+    } catch (error) {
+      core.warning(
+        `Could not look up pull requests for ${commit.id.substring(0, 7)}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    const issues: LinkedIssue[] = [];
+    for (const reference of commit.parsed?.issues ?? []) {
+      issues.push(await issueFor(reference));
+    }
+    pending.delete(commit.id);
+    // Titles are free text, so they get the same redaction as commit messages
+    const associations: CommitAssociations = {
+      pull_requests: pullRequests.map(pr => ({ ...pr, title: redact(pr.title) })),
+      issues: issues.map(issue => ({ ...issue, title: issue.title === null ? null : redact(issue.title) }))
+    };
+    linked.push({ ...commit, associations });
+  }
+
+  core.info(`🔗 Linked pull requests and issues for ${commits.length} commits with ${lookups} API lookups`);
+  return linked;
+}
@@ -0,0 +1,230 @@
+import * as core from '@actions/core';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { fromApiCommit, listCommitsBetween } from './commits';
+import { getConfigValue } from './config';
+import { EnrichmentOptions, formatCommits } from './enrich';
+import { Commit, Octokit, RawCommit } from './types';
+
+const DEFAULT_BATCH_SIZE = 50;
+const DEFAULT_STATE_FILE = '.shiploud/backfill-state.json';
+
+export interface BackfillOptions {
+  branch: string;
+  since?: string;
+  until?: string;
+  base?: string;
+  head?: string;
+  batchSize: number;
+  stateFile: string;
+}
+
+/**
+ * Progress persisted after every confirmed batch so an interrupted backfill can resume
+ */
+export interface BackfillCheckpoint {
+  key: string;
+  last_sha: string | null;
+  batches_confirmed: number;
+  commits_confirmed: number;
+  completed: boolean;
+  updated_at: string;
+}
+
+export interface BackfillPayload {
+  repo: string;
+  owner: string;
+  commits: Commit[];
+  backfill: {
+    branch: string;
+    since: string | null;
+    until: string | null;
+    range: string | null;
+    batch_index: number;
+    total_batches: number;
+  };
+}
+
+function parseDateInput(name: string, value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name} date "${value}" - expected an ISO 8601 date such as 2024-01-31`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Read backfill options from action inputs, falling back to the workflow_dispatch inputs of the same name
+ * and then to the repository config file
+ */
+export function getBackfillOptions(dispatchInputs: Record<string, string> | undefined, defaultBranch: string): BackfillOptions {
+  const input = (name: string) =>
+    (core.getInput(`backfill-${name}`) || dispatchInputs?.[name] || getConfigValue(`backfill-${name}`)).trim();
+
+  const options: BackfillOptions = {
+    branch: input('branch') || defaultBranch,
+    since: parseDateInput('backfill-since', input('since')),
+    until: parseDateInput('backfill-until', input('until')),
+    batchSize: DEFAULT_BATCH_SIZE,
+    stateFile: resolve(process.env.GITHUB_WORKSPACE || process.cwd(), input('state-file') || DEFAULT_STATE_FILE)
+  };
+
+  const range = input('range');
+  if (range) {
+    const match = range.match(/^([^.\s]+)\.\.\.?([^.\s]+)$/);
+    if (!match) {
+      throw new Error(`Invalid backfill-range "${range}" - expected "<base>...<head>"`);
+    }
+    options.base = match[1];
+    options.head = match[2];
+  }
+
+  const batchSize = input('batch-size');
+  if (batchSize) {
+    options.batchSize = parseInt(batchSize, 10);
+    if (!Number.isInteger(options.batchSize) || options.batchSize < 1) {
+      throw new Error(`Invalid backfill-batch-size "${batchSize}" - expected a positive integer`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * List every commit in the backfill window, oldest first
+ */
+export async function listBackfillCommits(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  options: BackfillOptions
+): Promise<RawCommit[]> {
+  if (options.base && options.head) {
+    return listCommitsBetween(octokit, owner, repo, options.base, options.head);
+  }
+
+  core.info(
+    `📡 Listing commits on "${options.branch}" (since: ${options.since ?? 'beginning'}, until: ${options.until ?? 'now'})`
+  );
+  const commits = await octokit.paginate(octokit.rest.repos.listCommits, {
+    owner,
+    repo,
+    sha: options.branch,
+    ...(options.since && { since: options.since }),
+    ...(options.until && { until: options.until }),
+    per_page: 100
+  });
+
+  return commits.map(fromApiCommit).reverse();
+}
+
+/**
+ * Identify a backfill window so checkpoints from a different window are never reused
+ */
+export function checkpointKey(owner: string, repo: string, options: BackfillOptions): string {
+  const { branch, since, until, base, head } = options;
+  return JSON.stringify({ owner, repo, branch, since, until, base, head });
+}
+
+export function loadCheckpoint(stateFile: string, key: string): BackfillCheckpoint | null {
+  if (!existsSync(stateFile)) return null;
+
+  try {
+    const checkpoint = JSON.parse(readFileSync(stateFile, 'utf8')) as BackfillCheckpoint;
+    if (checkpoint.key !== key) {
+      core.info('Backfill state belongs to a different window - starting fresh');
+      return null;
+    }
+    return checkpoint;
+  } catch (error) {
+    core.warning(`Ignoring unreadable backfill state ${stateFile}: ${error}`);
+    return null;
+  }
+}
+
+export function saveCheckpoint(stateFile: string, checkpoint: BackfillCheckpoint): void {
+  mkdirSync(dirname(stateFile), { recursive: true });
+  writeFileSync(stateFile, JSON.stringify({ ...checkpoint, updated_at: new Date().toISOString() }, null, 2));
+}
+
+/**
+ * Enrich and send the backfill window batch by batch, checkpointing after every confirmed batch.
+ * Returns the number of commits confirmed during this run.
+ */
+export async function runBackfill(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  options: BackfillOptions,
+  enrichment: EnrichmentOptions,
+  send: (payload: BackfillPayload) => Promise<void>
+): Promise<number> {
+  const key = checkpointKey(owner, repo, options);
+  const checkpoint: BackfillCheckpoint = loadCheckpoint(options.stateFile, key) ?? {
+    key,
+    last_sha: null,
+    batches_confirmed: 0,
+    commits_confirmed: 0,
+    completed: false,
+    updated_at: ''
+  };
+
+  if (checkpoint.completed) {
+    core.info(`✅ Backfill already completed (${checkpoint.commits_confirmed} commits) - nothing to do`);
+    return 0;
+  }
+
+  let commits = await listBackfillCommits(octokit, owner, repo, options);
+
+  if (checkpoint.last_sha) {
+    const resumeIndex = commits.findIndex(commit => commit.id === checkpoint.last_sha);
+    if (resumeIndex === -1) {
+      core.warning(`Checkpoint commit ${checkpoint.last_sha} is no longer in the backfill window - starting over`);
+      Object.assign(checkpoint, { last_sha: null, batches_confirmed: 0, commits_confirmed: 0 });
+    } else {
+      commits = commits.slice(resumeIndex + 1);
+      core.info(`⏩ Resuming backfill after ${checkpoint.commits_confirmed} confirmed commits`);
+    }
+  }
+
+  const totalBatches = checkpoint.batches_confirmed + Math.ceil(commits.length / options.batchSize);
+  core.info(`📚 Backfilling ${commits.length} commits in ${totalBatches - checkpoint.batches_confirmed} batches`);
+
+  let confirmed = 0;
+  for (let offset = 0; offset < commits.length; offset += options.batchSize) {
+    const batch = commits.slice(offset, offset + options.batchSize);
+    const batchIndex = checkpoint.batches_confirmed + 1;
+
+    core.info(`📦 Backfill batch ${batchIndex}/${totalBatches}: ${batch.length} commits`);
+    const formatted = await formatCommits(batch, octokit, owner, repo, enrichment);
+
+    if (formatted.length > 0) {
+      await send({
+        repo,
+        owner,
+        commits: formatted,
+        backfill: {
+          branch: options.branch,
+          since: options.since ?? null,
+          until: options.until ?? null,
+          range: options.base && options.head ? `${options.base}...${options.head}` : null,
+          batch_index: batchIndex,
+          total_batches: totalBatches
+        }
+      });
+    }
+
+    confirmed += formatted.length;
+    checkpoint.last_sha = batch[batch.length - 1].id;
+    checkpoint.batches_confirmed = batchIndex;
+    checkpoint.commits_confirmed += formatted.length;
+    saveCheckpoint(options.stateFile, checkpoint);
+
+    core.info(`✅ Batch ${batchIndex}/${totalBatches} confirmed (${checkpoint.commits_confirmed} commits total)`);
+  }
+
+  checkpoint.completed = true;
+  saveCheckpoint(options.stateFile, checkpoint);
+  return confirmed;
+}
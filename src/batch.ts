@@ -0,0 +1,150 @@
+import * as core from '@actions/core';
+import { createHash } from 'crypto';
+import { getInput } from './config';
+import { acceptedBeforeFailure } from './response';
+import { Commit } from './types';
+
+export const DEFAULT_MAX_BATCH_COMMITS = 100;
+export const DEFAULT_MAX_BATCH_BYTES = 1024 * 1024; // 1 MiB, well under typical serverless body limits
+
+// Room reserved for the batch envelope itself when measuring a batch
+const ENVELOPE_ALLOWANCE_BYTES = 256;
+
+export interface BatchLimits {
+  maxCommits: number;
+  maxBytes: number;
+}
+
+/**
+ * Lets the server reassemble a push that was split across several requests
+ */
+export interface BatchEnvelope {
+  batch_id: string;
+  index: number;
+  total: number;
+  push_id: string;
+}
+
+export interface BatchableCommitPayload {
+  repo: string;
+  owner: string;
+  commits: Commit[];
+}
+
+export type Batch<T extends BatchableCommitPayload> = T & { batch: BatchEnvelope };
+
+export interface BatchDeliveryResult {
+  accepted: number;
+  batches: number;
+  failedBatches: number;
+  errors: string[];
+}
+
+/**
+ * Read batch limits from action inputs, falling back to the defaults
+ */
+export function getBatchLimits(): BatchLimits {
+  const parse = (name: string, fallback: number): number => {
+    const raw = getInput(name).trim();
+    if (!raw) return fallback;
+    const value = parseInt(raw, 10);
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`Invalid ${name} "${raw}" - expected a positive integer`);
+    }
+    return value;
+  };
+
+  return {
+    maxCommits: parse('batch-max-commits', DEFAULT_MAX_BATCH_COMMITS),
+    maxBytes: parse('batch-max-bytes', DEFAULT_MAX_BATCH_BYTES)
+  };
+}
+
+/**
+ * Stable identifier for a set of commits, identical across retries and re-runs
+ */
+export function computePushId(owner: string, repo: string, commits: Commit[]): string {
+  return createHash('sha256')
+    .update(`${owner}/${repo}:${commits.map(c => c.id).join(',')}`)
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * Split a payload into batches bounded by commit count and serialized byte size.
+ * A single commit larger than the byte limit still gets a batch of its own.
+ */
+export function splitIntoBatches<T extends BatchableCommitPayload>(payload: T, limits: BatchLimits): Batch<T>[] {
+  const baseBytes = Buffer.byteLength(JSON.stringify({ ...payload, commits: [] }), 'utf8') + ENVELOPE_ALLOWANCE_BYTES;
+  const groups: Commit[][] = [];
+  let current: Commit[] = [];
+  let currentBytes = baseBytes;
+
+  for (const commit of payload.commits) {
+    // +1 for the separating comma
+    const commitBytes = Buffer.byteLength(JSON.stringify(commit), 'utf8') + 1;
+
+    if (current.length > 0 && (current.length >= limits.maxCommits || currentBytes + commitBytes > limits.maxBytes)) {
+      groups.push(current);
+      current = [];
+      currentBytes = baseBytes;
+    }
+
+    if (baseBytes + commitBytes > limits.maxBytes) {
+      core.warning(`Commit ${commit.id.substring(0, 7)} alone exceeds ${limits.maxBytes} bytes - sending it by itself`);
+    }
+
+    current.push(commit);
+    currentBytes += commitBytes;
+  }
+  groups.push(current);
+
+  const pushId = computePushId(payload.owner, payload.repo, payload.commits);
+  return groups.map((commits, i) => ({
+    ...payload,
+    commits,
+    batch: {
+      batch_id: `${pushId}-${i + 1}`,
+      index: i + 1,
+      total: groups.length,
+      push_id: pushId
+    }
+  }));
+}
+
+/**
+ * Send every batch independently so one failing batch neither aborts nor re-sends the others.
+ * `send` may resolve with how many of the batch's commits the API accepted (all of them otherwise), or
+ * reject with a partialDeliveryError whose accepted commits are counted too.
+ */
+export async function sendInBatches<T extends BatchableCommitPayload>(
+  payload: T,
+  limits: BatchLimits,
+  send: (batch: Batch<T>) => Promise<number | void>
+): Promise<BatchDeliveryResult> {
+  const batches = splitIntoBatches(payload, limits);
+  const result: BatchDeliveryResult = { accepted: 0, batches: batches.length, failedBatches: 0, errors: [] };
+
+  if (batches.length > 1) {
+    core.info(`📦 Split ${payload.commits.length} commits into ${batches.length} batches`);
+  }
+
+  for (const batch of batches) {
+    try {
+      if (batches.length > 1) {
+        core.info(`📦 Sending batch ${batch.batch.index}/${batch.batch.total} (${batch.commits.length} commits)`);
+      }
+      const accepted = await send(batch);
+      result.accepted += typeof accepted === 'number' ? accepted : batch.commits.length;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      core.warning(`⚠️ Batch ${batch.batch.index}/${batch.batch.total} failed: ${errorMessage}`);
+      // Commits accepted before a partial failure still count
+      result.accepted += acceptedBeforeFailure(error);
+      result.failedBatches++;
+      result.errors.push(errorMessage);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,60 @@
+import { BranchPayload, EventKind } from './events';
+import { getListInput, globToRegExp } from './glob';
+
+// Stands for the repository's default branch in branch-policy rules
+export const DEFAULT_BRANCH_PATTERN = '$default';
+
+/**
+ * publish: export as usual; draft: export marked as a draft; skip: export nothing
+ */
+export type BranchAction = 'publish' | 'draft' | 'skip';
+
+export interface BranchRule {
+  // Branch glob (`**` spans slashes) or $default
+  pattern: string;
+  action: BranchAction;
+}
+
+/**
+ * Read branch-policy rules written as `<branch glob>=<publish|draft|skip>`, in order
+ */
+export function getBranchPolicy(): BranchRule[] {
+  return getListInput('branch-policy').map(entry => {
+    const [pattern, action] = entry.split('=').map(part => part.trim());
+    if (!pattern || !['publish', 'draft', 'skip'].includes(action)) {
+      throw new Error(`Invalid branch-policy rule "${entry}" - expected <branch glob>=publish, draft or skip`);
+    }
+    return { pattern, action: action as BranchAction };
+  });
+}
+
+/**
+ * The action of the first rule matching the branch; branches no rule matches are published
+ */
+export function resolveBranchAction(
+  branch: string,
+  defaultBranch: string | undefined,
+  rules: BranchRule[]
+): BranchAction {
+  const rule = rules.find(({ pattern }) =>
+    pattern === DEFAULT_BRANCH_PATTERN ? branch === defaultBranch : globToRegExp(pattern).test(branch)
+  );
+  return rule?.action ?? 'publish';
+}
+
+/**
+ * The branch the policy is matched against. Tags and releases are matched by the branch they were cut
+ * from: the base_ref GitHub reports for a tag push, or a release's target branch. When that is unknown
+ * (a tag on an older commit, a release targeting a SHA) the default branch stands in, so a
+ * `$default=publish` rule keeps publishing releases.
+ */
+export function policyBranch(kind: EventKind | null, branch: string, payload: BranchPayload): string {
+  const defaultBranch = payload?.repository?.default_branch;
+  if (kind === 'tag') {
+    return payload?.base_ref?.replace('refs/heads/', '') ?? defaultBranch ?? branch;
+  }
+  if (kind === 'release' && /^[0-9a-f]{40}$/i.test(branch)) {
+    return defaultBranch ?? branch;
+  }
+  return branch;
+}
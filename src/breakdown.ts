@@ -0,0 +1,184 @@
+import { FileChange } from './types';
+
+export type FileCategory = 'source' | 'tests' | 'docs' | 'config' | 'other';
+
+export interface ChangeStats {
+  files: number;
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * What kind of work a commit was: changed files and lines per category and per language
+ */
+export interface ChangeBreakdown {
+  // The category with the most changed lines (files break ties)
+  primary: FileCategory | null;
+  categories: Partial<Record<FileCategory, ChangeStats>>;
+  languages: Record<string, ChangeStats>;
+}
+
+const LANGUAGES: Record<string, string> = {
+  ts: 'TypeScript',
+  tsx: 'TypeScript',
+  mts: 'TypeScript',
+  cts: 'TypeScript',
+  js: 'JavaScript',
+  jsx: 'JavaScript',
+  mjs: 'JavaScript',
+  cjs: 'JavaScript',
+  py: 'Python',
+  go: 'Go',
+  rs: 'Rust',
+  java: 'Java',
+  kt: 'Kotlin',
+  kts: 'Kotlin',
+  scala: 'Scala',
+  swift: 'Swift',
+  m: 'Objective-C',
+  rb: 'Ruby',
+  php: 'PHP',
+  cs: 'C#',
+  fs: 'F#',
+  c: 'C',
+  h: 'C',
+  cc: 'C++',
+  cpp: 'C++',
+  cxx: 'C++',
+  hpp: 'C++',
+  dart: 'Dart',
+  ex: 'Elixir',
+  exs: 'Elixir',
+  erl: 'Erlang',
+  hs: 'Haskell',
+  clj: 'Clojure',
+  lua: 'Lua',
+  r: 'R',
+  jl: 'Julia',
+  zig: 'Zig',
+  sol: 'Solidity',
+  sh: 'Shell',
+  bash: 'Shell',
+  zsh: 'Shell',
+  ps1: 'PowerShell',
+  sql: 'SQL',
+  graphql: 'GraphQL',
+  gql: 'GraphQL',
+  proto: 'Protocol Buffers',
+  html: 'HTML',
+  css: 'CSS',
+  scss: 'SCSS',
+  sass: 'Sass',
+  less: 'Less',
+  vue: 'Vue',
+  svelte: 'Svelte',
+  astro: 'Astro',
+  md: 'Markdown',
+  mdx: 'MDX',
+  rst: 'reStructuredText',
+  json: 'JSON',
+  yml: 'YAML',
+  yaml: 'YAML',
+  toml: 'TOML',
+  xml: 'XML',
+  tf: 'HCL',
+  hcl: 'HCL',
+  nix: 'Nix'
+};
+
+const LANGUAGE_FILES: Record<string, string> = {
+  dockerfile: 'Dockerfile',
+  makefile: 'Makefile',
+  gemfile: 'Ruby',
+  rakefile: 'Ruby'
+};
+
+const TEST_DIRS = /(?:^|\/)(?:tests?|__tests__|__mocks__|specs?|e2e|cypress|playwright|testdata|fixtures)\//i;
+// foo.test.ts, foo_spec.rb, test_foo.py, FooTest.java
+const TEST_FILES = /(?:[._-](?:test|spec)s?\.[^/]+$|(?:^|\/)test_[^/]+\.py$|(?:Test|Tests|IT)\.(?:java|kt|cs|swift|php)$)/;
+const DOC_DIRS = /(?:^|\/)(?:docs?|documentation|man)\//i;
+const DOC_FILES =
+  /(?:^|\/)(?:readme|changelog|changes|contributing|license|licence|authors|notice|security|code_of_conduct)(?:\.[^/]*)?$/i;
+const DOC_EXTENSIONS = new Set(['md', 'mdx', 'rst', 'adoc', 'txt', 'rdoc']);
+const CONFIG_DIRS = /(?:^|\/)\.(?:github|circleci|husky|vscode|devcontainer)\//;
+// Build files, lockfiles, tool configs (*.config.js) and dotfiles
+const CONFIG_FILES = /(?:^|\/)(?:dockerfile|makefile|procfile|gemfile|rakefile|go\.(?:mod|sum)|[^/]*\.lock|\.[^/]+)$/i;
+const TOOL_CONFIG_FILES = /(?:^|\/)(?:package(?:-lock)?\.json|pnpm-lock\.yaml|tsconfig[^/]*\.json|[^/]*\.config\.[cm]?[jt]s)$/;
+const CONFIG_EXTENSIONS = new Set([
+  'json',
+  'yml',
+  'yaml',
+  'toml',
+  'ini',
+  'cfg',
+  'conf',
+  'env',
+  'properties',
+  'xml',
+  'plist',
+  'tf',
+  'hcl',
+  'nix'
+]);
+
+function extension(path: string): string {
+  const name = path.split('/').pop() ?? '';
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+/**
+ * Language of a file from its extension or well-known name, or null when unknown
+ */
+export function detectLanguage(path: string): string | null {
+  const name = (path.split('/').pop() ?? '').toLowerCase();
+  return LANGUAGES[extension(path)] ?? LANGUAGE_FILES[name] ?? null;
+}
+
+/**
+ * Classify a file as source, tests, docs, config or other from its path; tests win over everything else
+ */
+export function classifyFile(path: string): FileCategory {
+  const ext = extension(path);
+  if (TEST_DIRS.test(path) || TEST_FILES.test(path)) return 'tests';
+  if (DOC_FILES.test(path) || DOC_EXTENSIONS.has(ext) || (DOC_DIRS.test(path) && !LANGUAGES[ext])) return 'docs';
+  const isConfigFile = CONFIG_DIRS.test(path) || CONFIG_FILES.test(path) || TOOL_CONFIG_FILES.test(path);
+  if (isConfigFile || CONFIG_EXTENSIONS.has(ext)) return 'config';
+  if (LANGUAGES[ext]) return 'source';
+  return 'other';
+}
+
+function add(stats: ChangeStats | undefined, file: FileChange): ChangeStats {
+  return {
+    files: (stats?.files ?? 0) + 1,
+    additions: (stats?.additions ?? 0) + file.additions,
+    deletions: (stats?.deletions ?? 0) + file.deletions
+  };
+}
+
+/**
+ * Aggregate changed files and lines by category and language
+ */
+export function summarizeChanges(files: FileChange[]): ChangeBreakdown {
+  const breakdown: ChangeBreakdown = { primary: null, categories: {}, languages: {} };
+
+  for (const file of files) {
+    const category = classifyFile(file.filename);
+    breakdown.categories[category] = add(breakdown.categories[category], file);
+    const language = detectLanguage(file.filename);
+    if (language) {
+      breakdown.languages[language] = add(breakdown.languages[language], file);
+    }
+  }
+
+  const weight = (stats: ChangeStats) => stats.additions + stats.deletions;
+  let best: ChangeStats | undefined;
+  for (const [category, stats] of Object.entries(breakdown.categories) as Array<[FileCategory, ChangeStats]>) {
+    if (!best || weight(stats) > weight(best) || (weight(stats) === weight(best) && stats.files > best.files)) {
+      best = stats;
+      breakdown.primary = category;
+    }
+  }
+
+  return breakdown;
+}
@@ -0,0 +1,196 @@
+import * as core from '@actions/core';
+import { getInput } from './config';
+import { FilterResult } from './filters';
+import {
+  DEFAULT_GITHUB_RETRY_OPTIONS,
+  GitHubRetryOptions,
+  createRateLimitState,
+  mapWithConcurrency,
+  withGitHubRetry
+} from './github-retry';
+import { DEFAULT_ENRICHMENT_CONCURRENCY } from './enrich';
+import { Commit, Octokit, RawCommit } from './types';
+
+const CHECK_RUNS_PAGE_SIZE = 100;
+
+// Conclusions that do not block a commit from being green
+const PASSING_CONCLUSIONS = ['success', 'neutral', 'skipped'];
+
+/**
+ * off: no lookups; attach: add each commit's check status; require: also skip commits that are not green
+ */
+export type CheckMode = 'off' | 'attach' | 'require';
+
+export interface CheckOptions {
+  mode: CheckMode;
+  concurrency: number;
+  retry: GitHubRetryOptions;
+  // Check runs of this workflow run are ignored; they belong to the export job itself
+  currentRunId?: number;
+}
+
+/**
+ * Combined conclusion of every check run reported for a commit
+ */
+export interface CheckStatus {
+  // success when every run passed, neutral when there were no runs
+  conclusion: 'success' | 'failure' | 'pending' | 'neutral';
+  total: number;
+  // Names of the runs that failed, timed out, were cancelled or need action
+  failed: string[];
+}
+
+/**
+ * Read the check-status input; checks are not looked up unless it is attach or require
+ */
+export function getCheckOptions(currentRunId?: number): CheckOptions {
+  const raw = getInput('check-status').trim().toLowerCase();
+  const mode = (raw || 'off') as CheckMode;
+  if (!['off', 'attach', 'require'].includes(mode)) {
+    throw new Error(`Invalid check-status "${raw}" - expected off, attach or require`);
+  }
+  return { mode, concurrency: DEFAULT_ENRICHMENT_CONCURRENCY, retry: DEFAULT_GITHUB_RETRY_OPTIONS, currentRunId };
+}
+
+/**
+ * The fields of a workflow_run or check_suite event payload the export reads
+ */
+export interface CheckEventPayload {
+  action?: string;
+  workflow_run?: {
+    event?: string;
+    head_sha?: string;
+    head_commit?: RawCommit | null;
+    head_repository?: { full_name?: string } | null;
+  };
+  check_suite?: {
+    head_sha?: string;
+    head_branch?: string | null;
+    before?: string | null;
+    after?: string | null;
+    head_commit?: RawCommit | null;
+    pull_requests?: unknown[];
+  };
+}
+
+/**
+ * Only completed workflow runs and check suites are exported; requested and in-progress ones fire again later
+ */
+export function isCompletedRun(payload: CheckEventPayload): boolean {
+  return payload?.action === 'completed' && !!(payload.workflow_run ?? payload.check_suite)?.head_sha;
+}
+
+/**
+ * Only runs for pushes to this repository are exported. Workflow runs triggered by anything else, or for a
+ * fork's head, and check suites for pull request heads would export commits that were never merged.
+ */
+export function isOwnPushRun(payload: CheckEventPayload, repository: string): boolean {
+  if (payload?.workflow_run) {
+    const { event, head_repository } = payload.workflow_run;
+    return event === 'push' && head_repository?.full_name === repository;
+  }
+  const suite = payload?.check_suite;
+  return !!suite?.head_branch && (suite.pull_requests ?? []).length === 0;
+}
+
+/**
+ * Commits covered by a check suite or workflow run
+ */
+export interface CheckedCommits {
+  // before/after range of a check suite, in the shape of a push payload
+  range?: { before: string; after: string; ref: string };
+  // The head commit from the event, used when there is no range or it cannot be compared
+  head: RawCommit[];
+}
+
+/**
+ * Commits a completed check suite or workflow run covers. Check suites carry a before/after range that is
+ * resolved like a push; workflow runs only name their head commit.
+ */
+export function checkedRange(payload: CheckEventPayload): CheckedCommits {
+  const source = payload.check_suite ?? payload.workflow_run;
+  const head: RawCommit[] = source?.head_commit ? [source.head_commit] : [];
+  const { before, after, head_branch } = payload.check_suite ?? {};
+  if (before && after) {
+    return { range: { before, after, ref: `refs/heads/${head_branch}` }, head };
+  }
+  return { head };
+}
+
+/**
+ * Combine check runs into one conclusion: any unfinished run makes it pending, any failing run a failure
+ */
+export function combineCheckRuns(
+  runs: Array<{ name: string; status: string; conclusion: string | null }>
+): CheckStatus {
+  const failed = runs
+    .filter(run => run.status === 'completed' && !PASSING_CONCLUSIONS.includes(run.conclusion ?? ''))
+    .map(run => run.name);
+  let conclusion: CheckStatus['conclusion'] = runs.length === 0 ? 'neutral' : 'success';
+  if (failed.length > 0) {
+    conclusion = 'failure';
+  } else if (runs.some(run => run.status !== 'completed')) {
+    conclusion = 'pending';
+  }
+  return { conclusion, total: runs.length, failed };
+}
+
+/**
+ * Attach the combined check-run conclusion to each commit. In require mode commits whose checks are
+ * pending or failing are returned as skipped. A failed lookup leaves the status out and skips in require mode.
+ */
+export async function attachCheckStatus(
+  commits: Commit[],
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  options: CheckOptions
+): Promise<FilterResult> {
+  const rateLimit = createRateLimitState();
+  const ownRun = options.currentRunId !== undefined ? `/runs/${options.currentRunId}/` : null;
+
+  const statuses = await mapWithConcurrency(commits, options.concurrency, async commit => {
+    try {
+      const runs = [];
+      for (let page = 1; ; page++) {
+        const { data } = await withGitHubRetry(
+          () =>
+            octokit.rest.checks.listForRef({
+              owner,
+              repo,
+              ref: commit.id,
+              filter: 'latest',
+              per_page: CHECK_RUNS_PAGE_SIZE,
+              page
+            }),
+          rateLimit,
+          options.retry
+        );
+        runs.push(...data.check_runs);
+        if (data.check_runs.length < CHECK_RUNS_PAGE_SIZE || runs.length >= data.total_count) break;
+      }
+      return combineCheckRuns(runs.filter(run => !ownRun || !run.details_url?.includes(ownRun)));
+    } catch (error) {
+      core.warning(
+        `Could not read checks for ${commit.id.substring(0, 7)}: ${error instanceof Error ? error.message : error}`
+      );
+      return null;
+    }
+  });
+
+  const result: FilterResult = { kept: [], skipped: [] };
+  commits.forEach((commit, i) => {
+    const checks = statuses[i];
+    if (options.mode === 'require' && checks?.conclusion !== 'success' && checks?.conclusion !== 'neutral') {
+      const reason = checks ? `checks are ${checks.conclusion}` : 'checks could not be read';
+      core.info(`⏭️ Skipping ${commit.id.substring(0, 7)}: ${reason}`);
+      result.skipped.push({ id: commit.id, reason });
+      return;
+    }
+    result.kept.push(checks ? { ...commit, checks } : commit);
+  });
+
+  const green = result.kept.filter(commit => commit.checks?.conclusion === 'success').length;
+  core.info(`🚦 Checks: ${green} of ${commits.length} commits green, ${result.skipped.length} held back`);
+  return result;
+}
@@ -0,0 +1,219 @@
+#!/usr/bin/env node
+import * as core from '@actions/core';
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { CONFIG_SCHEMA, loadRepoConfig, useRepoConfig } from './config';
+import { getDeliveryOptions } from './delivery';
+import { formatCommits, getEnrichmentOptions } from './enrich';
+import { filterCommits, getFilterOptions } from './filters';
+import { sendToBuildinpublicSo } from './index';
+import { readLocalCommits, resolveLocalRepository } from './local-git';
+import { parseCommitMessage } from './message';
+import { IngestPayload, SCHEMA_VERSION, toIngestPayload } from './payload';
+import { applyPrivacy, createPrivacyReport, getPrivacyOptions, logPrivacyReport } from './privacy';
+import { getBatchLimits, splitIntoBatches } from './batch';
+
+// Every action input except the GitHub-only ones can be passed as a flag or a SHIPLOUD_* variable;
+// github-server-url points commit links at an Enterprise Server
+const INPUT_NAMES = new Set(['api-token', 'github-server-url', ...Object.keys(CONFIG_SCHEMA)]);
+const CLI_FLAGS = ['cwd', 'repository', 'max-count', 'output'];
+
+const USAGE = `Usage: shiploud [options] [<revision range>]
+
+Reads commits from a local git checkout and prints the shiploud.so payloads, or sends them with --send.
+Without a revision range (for example v1.2.0..HEAD) only HEAD is exported.
+
+Options:
+  --repository <owner/repo>  Repository the commits belong to (default: $GITHUB_REPOSITORY or the origin remote)
+  --cwd <dir>                Local checkout to read (default: the current directory)
+  --max-count <n>            Export at most the n most recent commits of the range
+  --output <file>            Write the payloads to a file instead of stdout
+  --send                     Send the payloads to shiploud.so instead of printing them
+  --<input> <value>          Any action input, e.g. --api-token, --author-email hash or --exclude-paths secrets/
+  --help                     Show this help
+
+Inputs can also be set as SHIPLOUD_<INPUT> environment variables (SHIPLOUD_API_TOKEN, SHIPLOUD_AUTHOR_EMAIL, ...);
+flags win over the environment, and both win over .shiploud.yml in the checkout.
+`;
+
+export interface CliOptions {
+  cwd: string;
+  range?: string;
+  maxCount?: number;
+  repository?: { owner: string; repo: string };
+  output?: string;
+  send: boolean;
+  help: boolean;
+  // Action inputs by name, from flags and SHIPLOUD_* variables
+  inputs: Record<string, string>;
+}
+
+function parseRepository(value: string, source: string): { owner: string; repo: string } {
+  const [owner, repo, ...rest] = value.split('/');
+  if (!owner || !repo || rest.length > 0) {
+    throw new Error(`Invalid ${source} "${value}" - expected owner/repo`);
+  }
+  return { owner, repo };
+}
+
+/**
+ * Read CLI flags and SHIPLOUD_* environment variables; flags win
+ */
+export function parseCliArgs(argv: string[], env: NodeJS.ProcessEnv = process.env): CliOptions {
+  const options: CliOptions = { cwd: process.cwd(), send: false, help: false, inputs: {} };
+  for (const name of INPUT_NAMES) {
+    const value = env[`SHIPLOUD_${name.toUpperCase().replace(/-/g, '_')}`];
+    if (value) options.inputs[name] = value;
+  }
+  if (env.GITHUB_REPOSITORY) {
+    options.repository = parseRepository(env.GITHUB_REPOSITORY, 'GITHUB_REPOSITORY');
+  }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      if (options.range) throw new Error(`Unexpected argument "${arg}" - only one revision range is allowed`);
+      options.range = arg;
+      continue;
+    }
+
+    const [flag, inline] = arg.slice(2).split(/=(.*)/s, 2);
+    if (flag === 'send' || flag === 'help') {
+      options[flag] = true;
+      continue;
+    }
+    if (!CLI_FLAGS.includes(flag) && !INPUT_NAMES.has(flag)) {
+      throw new Error(`Unknown option "--${flag}" - run with --help to list the options`);
+    }
+    let value = inline;
+    if (value === undefined) {
+      // Boolean inputs may be given without a value
+      const isSwitch = CONFIG_SCHEMA[flag] === 'boolean' && !/^(true|false)$/i.test(argv[i + 1] ?? '');
+      value = isSwitch ? 'true' : argv[++i];
+      if (value === undefined) throw new Error(`Option "--${flag}" needs a value`);
+    }
+
+    if (flag === 'cwd') {
+      options.cwd = resolve(value);
+    } else if (flag === 'repository') {
+      options.repository = parseRepository(value, '--repository');
+    } else if (flag === 'max-count') {
+      const maxCount = parseInt(value, 10);
+      if (!Number.isInteger(maxCount) || maxCount < 1) {
+        throw new Error(`Invalid --max-count "${value}" - expected a positive integer`);
+      }
+      options.maxCount = maxCount;
+    } else if (flag === 'output') {
+      options.output = resolve(value);
+    } else {
+      options.inputs[flag] = value;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Send everything written to stdout to stderr instead; @actions/core logs to stdout, which must only hold
+ * the payloads. Returns a writer for the real stdout and a function that restores it.
+ */
+function redirectLogsToStderr(): { stdout: (text: string) => void; restore: () => void } {
+  const write = process.stdout.write;
+  process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+  return {
+    stdout: text => write.call(process.stdout, text),
+    restore: () => {
+      process.stdout.write = write;
+    }
+  };
+}
+
+/**
+ * Build the payloads for a local revision range, exactly as the action would, and print or send them.
+ * Log lines go to stderr so the printed payloads can be piped straight into other tools.
+ */
+export async function runCli(options: CliOptions): Promise<void> {
+  const { stdout, restore } = redirectLogsToStderr();
+  try {
+    await exportLocalCommits(options, stdout);
+  } finally {
+    restore();
+  }
+}
+
+async function exportLocalCommits(options: CliOptions, stdout: (text: string) => void): Promise<void> {
+  const startTime = Date.now();
+  // The option readers shared with the action read inputs through @actions/core
+  for (const [name, value] of Object.entries(options.inputs)) {
+    process.env[`INPUT_${name.toUpperCase()}`] = value;
+  }
+  // .shiploud.yml is looked up in the checkout, like in the workspace of a workflow run
+  process.env.GITHUB_WORKSPACE = options.cwd;
+
+  const { owner, repo } = options.repository ?? resolveLocalRepository(options.cwd);
+  useRepoConfig(await loadRepoConfig(null, owner, repo, undefined));
+
+  const { commits, details } = readLocalCommits(options.cwd, options.range, options.maxCount);
+  core.info(`📚 Read ${commits.length} commits from ${options.cwd}`);
+  const formatted = await formatCommits(commits, null, owner, repo, getEnrichmentOptions(), details);
+
+  const { kept } = filterCommits(formatted, getFilterOptions());
+  const privacyOptions = getPrivacyOptions();
+  const privacyReport = createPrivacyReport();
+  const exported = kept.map(commit => {
+    const protectedCommit = applyPrivacy(commit, privacyOptions, privacyReport);
+    return { ...protectedCommit, parsed: parseCommitMessage(protectedCommit.message) };
+  });
+  logPrivacyReport(privacyReport);
+  if (exported.length === 0) {
+    core.info('No commits left to export');
+    return;
+  }
+
+  const payload: IngestPayload = { schema_version: SCHEMA_VERSION, repo, owner, commits: exported };
+  const batches = splitIntoBatches(payload, getBatchLimits()).map(toIngestPayload);
+
+  if (!options.send) {
+    const json = `${JSON.stringify(batches, null, 2)}\n`;
+    if (options.output) {
+      mkdirSync(dirname(options.output), { recursive: true });
+      writeFileSync(options.output, json);
+      core.info(`📝 ${batches.length} payload(s) with ${exported.length} commits written to ${options.output}`);
+    } else {
+      stdout(json);
+    }
+    return;
+  }
+
+  const apiToken = core.getInput('api-token');
+  if (!apiToken) {
+    throw new Error('An API token is required to send - pass --api-token or set SHIPLOUD_API_TOKEN');
+  }
+  const deliveryOptions = getDeliveryOptions();
+  for (const batch of batches) {
+    await sendToBuildinpublicSo(batch, apiToken, startTime, deliveryOptions);
+  }
+  core.info(`✅ Sent ${exported.length} commits from ${owner}/${repo} in ${batches.length} request(s)`);
+}
+
+/**
+ * CLI entry point; failures are reported on stderr with a non-zero exit code
+ */
+export async function main(argv: string[] = process.argv.slice(2)): Promise<void> {
+  try {
+    const options = parseCliArgs(argv);
+    if (options.help) {
+      process.stdout.write(USAGE);
+      return;
+    }
+    await runCli(options);
+  } catch (error) {
+    process.stderr.write(`❌ ${error instanceof Error ? error.message : 'Unknown error occurred'}\n`);
+    process.exitCode = 1;
+  }
+}
+
+// Execute the CLI only if this module is run directly (not imported)
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,142 @@
+import * as core from '@actions/core';
+import { CommitVerification, Octokit, RawCommit } from './types';
+
+const COMPARE_PAGE_SIZE = 100;
+
+/**
+ * The fields of a REST API commit (list/compare/pulls/get endpoints) the export reads
+ */
+export interface ApiCommit {
+  sha: string;
+  commit: {
+    message: string;
+    author?: { name?: string; email?: string; date?: string } | null;
+    committer?: { date?: string } | null;
+    verification?: { verified: boolean; reason: string } | null;
+  };
+  author?: { login?: string } | null;
+  committer?: { login?: string } | null;
+  parents?: Array<{ sha: string }>;
+}
+
+/**
+ * Normalize a REST API commit (list/compare/pulls endpoints) to the push payload shape
+ */
+export function fromApiCommit(commit: ApiCommit): RawCommit {
+  return {
+    id: commit.sha,
+    message: commit.commit.message,
+    author: {
+      name: commit.commit.author?.name ?? commit.author?.login ?? 'unknown',
+      email: commit.commit.author?.email ?? ''
+    },
+    timestamp: commit.commit.author?.date ?? commit.commit.committer?.date ?? '',
+    ...(Array.isArray(commit.parents) && { parents: commit.parents.map(parent => parent.sha) }),
+    ...(commit.commit.verification && { verification: toVerification(commit) })
+  };
+}
+
+/**
+ * Signature verification of a REST API commit. GitHub verifies signatures against the committer's keys,
+ * so the committer's login is the signer of a verified commit.
+ */
+export function toVerification(commit: {
+  commit?: Pick<ApiCommit['commit'], 'verification'>;
+  committer?: ApiCommit['committer'];
+}): CommitVerification {
+  const { verified, reason } = commit.commit?.verification ?? { verified: false, reason: 'unknown' };
+  return {
+    verified: !!verified,
+    reason: reason ?? 'unknown',
+    signer: verified ? (commit.committer?.login ?? null) : null
+  };
+}
+
+/**
+ * File entry as returned by the commit and compare endpoints
+ */
+export interface CommitFile {
+  filename: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  previous_filename?: string;
+}
+
+export interface CompareResult {
+  commits: RawCommit[];
+  // Aggregated over the whole range and only present on the first page
+  files: CommitFile[];
+}
+
+/**
+ * Page through the compare API for `base...head`, collecting every commit (oldest first)
+ */
+export async function compareRange(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  base: string,
+  head: string
+): Promise<CompareResult> {
+  core.info(`📡 Comparing ${base}...${head} via GitHub API`);
+
+  const result: CompareResult = { commits: [], files: [] };
+  for (let page = 1; ; page++) {
+    const { data } = await octokit.rest.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${base}...${head}`,
+      per_page: COMPARE_PAGE_SIZE,
+      page
+    });
+
+    result.commits.push(...data.commits.map(fromApiCommit));
+    if (page === 1) {
+      result.files = data.files ?? [];
+    }
+
+    if (data.commits.length < COMPARE_PAGE_SIZE || result.commits.length >= data.total_commits) {
+      return result;
+    }
+  }
+}
+
+/**
+ * List the commits reachable from `head` but not from `base` (oldest first) via the compare API
+ */
+export async function listCommitsBetween(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  base: string,
+  head: string
+): Promise<RawCommit[]> {
+  return (await compareRange(octokit, owner, repo, base, head)).commits;
+}
+
+/**
+ * List up to `limit` commits reachable from `ref` (oldest first), for ranges without a lower bound
+ */
+export async function listCommitsUpTo(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string,
+  limit: number
+): Promise<RawCommit[]> {
+  core.info(`📡 Listing up to ${limit} commits reachable from ${ref} via GitHub API`);
+
+  let fetched = 0;
+  const commits = await octokit.paginate(
+    octokit.rest.repos.listCommits,
+    { owner, repo, sha: ref, per_page: 100 },
+    (response, done) => {
+      fetched += response.data.length;
+      if (fetched >= limit) done();
+      return response.data;
+    }
+  );
+
+  return commits.slice(0, limit).map(fromApiCommit).reverse();
+}
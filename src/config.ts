@@ -0,0 +1,241 @@
+import * as core from '@actions/core';
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { createRateLimitState, withGitHubRetry } from './github-retry';
+import { Octokit } from './types';
+import { parseYaml } from './yaml';
+
+export const CONFIG_FILES = ['.shiploud.yml', '.shiploud.yaml', '.shiploud.json'];
+
+type SettingKind = 'string' | 'boolean' | 'integer' | 'number' | 'list' | 'destinations';
+
+/**
+ * Settings a config file may hold, keyed by the input they stand in for
+ */
+export const CONFIG_SCHEMA: Record<string, SettingKind> = {
+  'ingest-url': 'string',
+  'dry-run': 'boolean',
+  'dry-run-file': 'string',
+  'author-email': 'string',
+  'exclude-paths': 'list',
+  'mask-paths': 'list',
+  'redact-secrets': 'boolean',
+  'redact-patterns': 'list',
+  'skip-marker': 'string',
+  'exclude-bots': 'boolean',
+  'exclude-merge-commits': 'boolean',
+  'include-commit-paths': 'list',
+  'exclude-commit-paths': 'list',
+  'enrichment-concurrency': 'integer',
+  'max-commit-files': 'integer',
+  'link-associations': 'boolean',
+  'check-status': 'string',
+  'branch-policy': 'list',
+  'delivery-max-attempts': 'integer',
+  'delivery-timeout': 'integer',
+  'delivery-budget': 'integer',
+  'fail-on-rejection': 'boolean',
+  'destinations': 'destinations',
+  'outbox-dir': 'string',
+  'outbox-max-age': 'number',
+  'outbox-only': 'boolean',
+  'batch-max-commits': 'integer',
+  'batch-max-bytes': 'integer',
+  'backfill-since': 'string',
+  'backfill-until': 'string',
+  'backfill-branch': 'string',
+  'backfill-range': 'string',
+  'backfill-batch-size': 'integer',
+  'backfill-state-file': 'string'
+};
+
+// Secrets belong in the workflow, never in a file committed to the repository
+const SECRET_INPUTS = ['api-token', 'github-token'];
+
+// Needed to locate and fetch the config file itself, so they are read before it is
+const WORKFLOW_ONLY_INPUTS = ['config-file', 'github-server-url', 'github-api-url'];
+
+const EXPECTED: Record<SettingKind, string> = {
+  string: 'a string',
+  boolean: 'true or false',
+  integer: 'an integer',
+  number: 'a number',
+  list: 'a string or a list of strings',
+  destinations: 'a list of destinations'
+};
+
+export interface RepoConfig {
+  file: string | null;
+  // Every setting as the string an input would hold
+  values: Record<string, string>;
+}
+
+export const EMPTY_REPO_CONFIG: RepoConfig = { file: null, values: {} };
+
+let active: RepoConfig = EMPTY_REPO_CONFIG;
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toInputValue(value: unknown, kind: SettingKind, key: string, file: string): string {
+  const invalid = (path: string, expected: string) => new Error(`Invalid ${file}: "${path}" must be ${expected}`);
+
+  switch (kind) {
+    case 'string':
+      if (typeof value !== 'string') throw invalid(key, EXPECTED.string);
+      return value;
+    case 'boolean':
+      if (typeof value !== 'boolean') throw invalid(key, EXPECTED.boolean);
+      return String(value);
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) throw invalid(key, EXPECTED.integer);
+      return String(value);
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) throw invalid(key, EXPECTED.number);
+      return String(value);
+    case 'list':
+      if (typeof value === 'string') return value;
+      if (!Array.isArray(value)) throw invalid(key, EXPECTED.list);
+      value.forEach((item, i) => {
+        if (typeof item !== 'string') throw invalid(`${key}[${i}]`, 'a string');
+      });
+      return value.join('\n');
+    case 'destinations':
+      if (!Array.isArray(value)) throw invalid(key, EXPECTED.destinations);
+      value.forEach((item, i) => {
+        if (!isMapping(item)) throw invalid(`${key}[${i}]`, 'a mapping');
+        if ('secret' in item) {
+          throw new Error(`Invalid ${file}: "${key}[${i}].secret" cannot be set in a config file - use secret_env`);
+        }
+      });
+      return JSON.stringify(value);
+  }
+}
+
+/**
+ * Check a parsed config file against the schema and convert every setting to its input form
+ */
+export function validateRepoConfig(raw: unknown, file: string): Record<string, string> {
+  if (raw === null || raw === undefined) return {};
+  if (!isMapping(raw)) {
+    throw new Error(`Invalid ${file}: expected a mapping of settings at the top level`);
+  }
+
+  const values: Record<string, string> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (SECRET_INPUTS.includes(key)) {
+      throw new Error(`Invalid ${file}: "${key}" cannot be set in a config file - pass it as an input from a secret`);
+    }
+    if (WORKFLOW_ONLY_INPUTS.includes(key)) {
+      throw new Error(`Invalid ${file}: "${key}" cannot be set in a config file - pass it as a workflow input`);
+    }
+    const kind = CONFIG_SCHEMA[key];
+    if (!kind) {
+      throw new Error(`Invalid ${file}: unknown setting "${key}"`);
+    }
+    if (value !== null) {
+      values[key] = toInputValue(value, kind, key, file);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a config file's contents, as JSON for .json files and YAML otherwise
+ */
+export function parseRepoConfig(text: string, file: string): RepoConfig {
+  let raw: unknown;
+  try {
+    raw = file.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`Invalid ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  return { file, values: validateRepoConfig(raw, file) };
+}
+
+async function fetchConfigFile(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string,
+  path: string
+): Promise<string | null> {
+  try {
+    const { data } = await withGitHubRetry(
+      () => octokit.rest.repos.getContent({ owner, repo, path, ref }),
+      createRateLimitState()
+    );
+    if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) {
+      throw new Error(`${path} is not a file`);
+    }
+    return Buffer.from(data.content, 'base64').toString('utf8');
+  } catch (error) {
+    if ((error as { status?: number } | null)?.status === 404) return null;
+    throw new Error(
+      `Failed to read ${path} at ${ref.substring(0, 7)}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Find the repository config file: `config-file` (or the default names) in the workspace first,
+ * then through the API at the pushed SHA when nothing is checked out
+ */
+export async function loadRepoConfig(
+  octokit: Octokit | null,
+  owner: string,
+  repo: string,
+  ref: string | undefined
+): Promise<RepoConfig> {
+  const requested = core.getInput('config-file').trim();
+  if (requested.toLowerCase() === 'none') return EMPTY_REPO_CONFIG;
+  const candidates = requested ? [requested] : CONFIG_FILES;
+
+  const workspace = process.env.GITHUB_WORKSPACE;
+  if (workspace) {
+    for (const candidate of candidates) {
+      const path = resolve(workspace, candidate);
+      if (existsSync(path)) {
+        core.info(`⚙️ Using settings from ${candidate} in the workspace`);
+        return parseRepoConfig(readFileSync(path, 'utf8'), candidate);
+      }
+    }
+  }
+
+  if (octokit && ref) {
+    for (const candidate of candidates) {
+      const text = await fetchConfigFile(octokit, owner, repo, ref, candidate);
+      if (text !== null) {
+        core.info(`⚙️ Using settings from ${candidate} at ${ref.substring(0, 7)}`);
+        return parseRepoConfig(text, candidate);
+      }
+    }
+  }
+
+  if (requested) {
+    throw new Error(`Config file "${requested}" was not found in the workspace or the repository`);
+  }
+  return EMPTY_REPO_CONFIG;
+}
+
+/**
+ * Make a loaded config the fallback for every input read afterwards
+ */
+export function useRepoConfig(config: RepoConfig): void {
+  active = config;
+}
+
+/**
+ * A setting from the active config file, or '' when it does not set it
+ */
+export function getConfigValue(name: string): string {
+  return active.values[name] ?? '';
+}
+
+/**
+ * Read an input, falling back to the repository config file when the workflow leaves it empty
+ */
+export function getInput(name: string): string {
+  return core.getInput(name) || getConfigValue(name);
+}
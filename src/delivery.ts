@@ -0,0 +1,206 @@
+import * as core from '@actions/core';
+import { getInput } from './config';
+import { IngestRequest } from './request';
+
+export interface DeliveryOptions {
+  maxAttempts: number;
+  // Per-attempt limit, covering the request and reading the response body
+  timeoutMs: number;
+  // Total time the retries may take, including waits between attempts
+  budgetMs: number;
+  baseDelayMs: number;
+  // Fail the step when the API rejects any commit, instead of only warning
+  failOnRejection: boolean;
+  // Treat any successful response as delivered, for webhooks that answer with plain text
+  acceptAnyBody?: boolean;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+export const DEFAULT_DELIVERY_OPTIONS: DeliveryOptions = {
+  maxAttempts: 5,
+  timeoutMs: 30_000,
+  budgetMs: 300_000,
+  baseDelayMs: 1000,
+  failOnRejection: false
+};
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+function getPositiveInteger(name: string, fallback: number): number {
+  const value = getInput(name).trim();
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${name} "${value}" - expected a positive integer`);
+  }
+  return parsed;
+}
+
+/**
+ * Read delivery retry options from action inputs
+ */
+export function getDeliveryOptions(): DeliveryOptions {
+  return {
+    ...DEFAULT_DELIVERY_OPTIONS,
+    maxAttempts: getPositiveInteger('delivery-max-attempts', DEFAULT_DELIVERY_OPTIONS.maxAttempts),
+    timeoutMs: getPositiveInteger('delivery-timeout', DEFAULT_DELIVERY_OPTIONS.timeoutMs / 1000) * 1000,
+    budgetMs: getPositiveInteger('delivery-budget', DEFAULT_DELIVERY_OPTIONS.budgetMs / 1000) * 1000,
+    failOnRejection: getInput('fail-on-rejection').trim().toLowerCase() === 'true'
+  };
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | null {
+  if (!value) return null;
+  if (/^\d+$/.test(value.trim())) return Number(value.trim()) * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(date - now, 0);
+}
+
+/**
+ * Exponential backoff with jitter so parallel jobs don't retry in lockstep: 50-100% of base * 2^(attempt-1)
+ */
+export function backoffDelay(attempt: number, options: DeliveryOptions): number {
+  const backoff = options.baseDelayMs * Math.pow(2, attempt - 1);
+  return Math.round(backoff / 2 + (options.random ?? Math.random)() * (backoff / 2));
+}
+
+/**
+ * Retry only what can succeed later: timeouts, rate limits and server errors
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 425 || status === 429 || status >= 500;
+}
+
+/**
+ * Explain a non-retryable rejection, with guidance for the usual token and signature mistakes
+ */
+export function describeClientError(status: number, statusText: string, body: string): string {
+  const detail = `API request failed: ${status} ${statusText} - ${body.slice(0, 200)}`;
+  if ((status === 401 || status === 403) && /signature/i.test(body)) {
+    return (
+      `${detail}\nThe request signature was rejected. Make sure api-token is the exact signing secret from ` +
+      'your shiploud.so dashboard (no extra whitespace) and that it has not been rotated.'
+    );
+  }
+  if (status === 401 || status === 403) {
+    return (
+      `${detail}\nThe API token was rejected. Check that the SHIPLOUD_API_TOKEN secret is set, ` +
+      'is passed as api-token, and belongs to a repository connected in your shiploud.so dashboard.'
+    );
+  }
+  return `${detail}\nClient errors are not retried.`;
+}
+
+interface AttemptFailure {
+  message: string;
+  retryable: boolean;
+  retryAfterMs: number | null;
+}
+
+async function attempt(
+  request: IngestRequest,
+  timeoutMs: number,
+  acceptAnyBody: boolean
+): Promise<string | AttemptFailure> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: request.body,
+      signal: controller.signal
+    });
+
+    // Minimal diagnostics
+    core.info(`🔁 Response status: ${response.status}`);
+
+    const resultText = await response.text();
+
+    if (!response.ok) {
+      const retryable = isRetryableStatus(response.status);
+      return {
+        message: retryable
+          ? `API request failed: ${response.status} ${response.statusText} - ${resultText.slice(0, 200)}…`
+          : describeClientError(response.status, response.statusText, resultText),
+        retryable,
+        retryAfterMs:
+          response.status === 429 || response.status === 503
+            ? parseRetryAfter(response.headers?.get('retry-after'))
+            : null
+      };
+    }
+
+    if (!acceptAnyBody) {
+      try {
+        JSON.parse(resultText);
+      } catch {
+        return { message: 'API responded with non-JSON payload', retryable: true, retryAfterMs: null };
+      }
+    }
+
+    return resultText;
+  } catch (error) {
+    const message = controller.signal.aborted
+      ? `Request timed out after ${Math.round(timeoutMs / 1000)}s`
+      : error instanceof Error
+        ? error.message
+        : 'Unknown error';
+    return { message, retryable: true, retryAfterMs: null };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * POST a request until it succeeds, failing fast on client errors and giving up after
+ * `maxAttempts` attempts or once the time budget is spent. Resolves with the response body.
+ */
+export async function deliverWithRetry(
+  buildRequest: () => IngestRequest,
+  options: DeliveryOptions = DEFAULT_DELIVERY_OPTIONS,
+  target = 'shiploud.so API'
+): Promise<string> {
+  const sleep = options.sleep ?? defaultSleep;
+  const deadline = Date.now() + options.budgetMs;
+
+  for (let n = 1; n <= options.maxAttempts; n++) {
+    core.info(`📡 Sending to ${target} (attempt ${n}/${options.maxAttempts})`);
+
+    const remaining = deadline - Date.now();
+    const timeoutMs = Math.max(Math.min(options.timeoutMs, remaining), 1);
+    const result = await attempt(buildRequest(), timeoutMs, options.acceptAnyBody ?? false);
+    if (typeof result === 'string') {
+      core.info(`✅ API response OK`);
+      return result;
+    }
+
+    core.warning(`⚠️ Attempt ${n} failed: ${result.message}`);
+
+    if (!result.retryable) {
+      throw new Error(result.message);
+    }
+    if (n === options.maxAttempts) {
+      throw new Error(`Failed after ${options.maxAttempts} attempts. Last error: ${result.message}`);
+    }
+
+    const delay = result.retryAfterMs ?? backoffDelay(n, options);
+    if (Date.now() + delay >= deadline) {
+      throw new Error(
+        `Delivery time budget of ${Math.round(options.budgetMs / 1000)}s exhausted after ${n} attempts. ` +
+          `Last error: ${result.message}`
+      );
+    }
+
+    core.info(`⏳ Retrying in ${delay}ms${result.retryAfterMs !== null ? ' (Retry-After)' : ''}...`);
+    await sleep(delay);
+  }
+
+  // Unreachable: the loop always returns or throws on its last attempt
+  throw new Error(`Failed after ${options.maxAttempts} attempts`);
+}
@@ -0,0 +1,255 @@
+import * as core from '@actions/core';
+import { getInput } from './config';
+import { DeliveryOptions, deliverWithRetry } from './delivery';
+import {
+  IDEMPOTENCY_HEADER,
+  IngestRequest,
+  SIGNATURE_HEADER,
+  buildIngestRequest,
+  computeIdempotencyKey
+} from './request';
+import { Commit } from './types';
+
+// The shiploud.so ingest API is always delivered to first and keeps its own outbox and per-commit results
+export const PRIMARY_DESTINATION = 'shiploud.so';
+
+export type DestinationFormat = 'shiploud' | 'generic';
+export type DestinationFailureMode = 'warn' | 'fail';
+
+/**
+ * An additional endpoint that receives every batch sent to shiploud.so
+ */
+export interface Destination {
+  name: string;
+  url: string;
+  // Requests are sent unsigned when empty
+  secret: string;
+  format: DestinationFormat;
+  delivery: DeliveryOptions;
+  onFailure: DestinationFailureMode;
+}
+
+/**
+ * What one destination received during the run; batch counts, not commit counts
+ */
+export interface DestinationResult {
+  name: string;
+  format: DestinationFormat;
+  delivered: number;
+  failed: number;
+  commits: number;
+  errors: string[];
+}
+
+export type DestinationPayload = { commits: Commit[] } & Record<string, unknown>;
+
+/**
+ * Flat, Slack-compatible body for webhooks that know nothing about shiploud.so
+ */
+export interface GenericPayload {
+  text: string;
+  event: string;
+  repository: string;
+  commits: Array<{
+    id: string;
+    message: string;
+    author: Commit['author'];
+    timestamp: string;
+    url: string;
+    additions?: number;
+    deletions?: number;
+    files_changed: number;
+  }>;
+  [key: string]: unknown;
+}
+
+const FORMATS: DestinationFormat[] = ['shiploud', 'generic'];
+const FAILURE_MODES: DestinationFailureMode[] = ['warn', 'fail'];
+
+function readPositiveInteger(value: unknown, field: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+    throw new Error(`Invalid ${field} "${value}" - expected a positive integer`);
+  }
+  return value;
+}
+
+function readChoice<T extends string>(value: unknown, field: string, choices: T[], fallback: T): T {
+  if (value === undefined) return fallback;
+  if (!choices.includes(value as T)) {
+    throw new Error(`Invalid ${field} "${value}" - expected ${choices.map(choice => `"${choice}"`).join(' or ')}`);
+  }
+  return value as T;
+}
+
+function readSecret(entry: Record<string, unknown>, field: string): string {
+  if (entry.secret_env !== undefined) {
+    const variable = String(entry.secret_env);
+    const secret = process.env[variable];
+    if (!secret) {
+      throw new Error(`Invalid ${field}.secret_env "${variable}" - the environment variable is not set`);
+    }
+    return secret.trim();
+  }
+  if (entry.secret !== undefined && typeof entry.secret !== 'string') {
+    throw new Error(`Invalid ${field}.secret - expected a string`);
+  }
+  return (entry.secret ?? '').trim();
+}
+
+/**
+ * Read additional destinations from the `destinations` input, a JSON array of
+ * { name, url, secret | secret_env, format, max_attempts, timeout, budget, on_failure }
+ */
+export function getDestinations(defaults: DeliveryOptions): Destination[] {
+  const input = getInput('destinations').trim();
+  if (!input) return [];
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(input);
+  } catch (error) {
+    throw new Error(`Invalid destinations - expected a JSON array: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error('Invalid destinations - expected a JSON array');
+  }
+
+  const names = new Set([PRIMARY_DESTINATION]);
+  return entries.map((entry: unknown, i): Destination => {
+    const field = `destinations[${i}]`;
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      throw new Error(`Invalid ${field} - expected an object`);
+    }
+    const destination = entry as Record<string, unknown>;
+
+    const url = typeof destination.url === 'string' ? destination.url.trim() : '';
+    if (!/^https?:\/\/\S+$/.test(url)) {
+      throw new Error(`Invalid ${field}.url "${destination.url ?? ''}" - expected an http(s) URL`);
+    }
+
+    const name = destination.name === undefined ? `destination-${i + 1}` : String(destination.name).trim();
+    if (!name || names.has(name)) {
+      throw new Error(`Invalid ${field}.name "${name}" - names must be unique and not "${PRIMARY_DESTINATION}"`);
+    }
+    names.add(name);
+
+    const secret = readSecret(destination, field);
+    if (secret) {
+      core.setSecret(secret);
+    }
+
+    const format = readChoice(destination.format, `${field}.format`, FORMATS, 'generic');
+    return {
+      name,
+      url,
+      secret,
+      format,
+      delivery: {
+        ...defaults,
+        maxAttempts: readPositiveInteger(destination.max_attempts, `${field}.max_attempts`, defaults.maxAttempts),
+        timeoutMs: readPositiveInteger(destination.timeout, `${field}.timeout`, defaults.timeoutMs / 1000) * 1000,
+        budgetMs: readPositiveInteger(destination.budget, `${field}.budget`, defaults.budgetMs / 1000) * 1000,
+        failOnRejection: false,
+        acceptAnyBody: format === 'generic'
+      },
+      onFailure: readChoice(destination.on_failure, `${field}.on_failure`, FAILURE_MODES, 'warn')
+    };
+  });
+}
+
+export function createDestinationResult(name: string, format: DestinationFormat): DestinationResult {
+  return { name, format, delivered: 0, failed: 0, commits: 0, errors: [] };
+}
+
+// Slack mrkdwn treats these as control characters
+function escapeMrkdwn(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Convert a shiploud.so batch into the generic format; `text` makes it postable to Slack-compatible webhooks
+ */
+export function toGenericPayload(payload: DestinationPayload): GenericPayload {
+  const { owner, repo, commits, type, pull_request, release, batch } = payload;
+  const repository = `${owner}/${repo}`;
+  const lines = commits.map(
+    commit =>
+      `• <${commit.url}|${commit.id.substring(0, 7)}> ${escapeMrkdwn(commit.message.split('\n')[0])} - ` +
+      escapeMrkdwn(commit.author.name)
+  );
+
+  return {
+    text: [`${commits.length} new commit(s) in ${repository}`, ...lines].join('\n'),
+    event: typeof type === 'string' ? type : pull_request ? 'pull_request' : 'commits',
+    repository,
+    commits: commits.map(commit => ({
+      id: commit.id,
+      message: commit.message,
+      author: commit.author,
+      timestamp: commit.timestamp,
+      url: commit.url,
+      additions: commit.additions,
+      deletions: commit.deletions,
+      files_changed: commit.files.total_changes
+    })),
+    ...(pull_request !== undefined && { pull_request }),
+    ...(release !== undefined && { release }),
+    ...(batch !== undefined && { batch })
+  };
+}
+
+/**
+ * Serialize and, when the destination has a secret, sign a batch for one destination
+ */
+export function buildDestinationRequest(destination: Destination, payload: DestinationPayload): IngestRequest {
+  const body = destination.format === 'shiploud' ? payload : toGenericPayload(payload);
+  const request = buildIngestRequest(body, destination.secret, {}, destination.url);
+  // The same commits get the same key whatever the format
+  request.headers[IDEMPOTENCY_HEADER] = computeIdempotencyKey(payload, request.body);
+  if (!destination.secret) {
+    delete request.headers['X-Hub-Signature-256'];
+    delete request.headers[SIGNATURE_HEADER];
+  }
+  return request;
+}
+
+/**
+ * Deliver a batch to one destination with its own retry policy. Failures are recorded, never thrown,
+ * so one destination cannot keep the batch from the others.
+ */
+export async function deliverToDestination(
+  destination: Destination,
+  payload: DestinationPayload,
+  result: DestinationResult
+): Promise<void> {
+  try {
+    await deliverWithRetry(
+      () => buildDestinationRequest(destination, payload),
+      destination.delivery,
+      `destination "${destination.name}"`
+    );
+    result.delivered++;
+    result.commits += payload.commits.length;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    result.failed++;
+    result.errors.push(message);
+    core.warning(`⚠️ Delivery to destination "${destination.name}" failed: ${message}`);
+  }
+}
+
+/**
+ * Fail the step when a destination configured with on_failure "fail" missed any batch
+ */
+export function assertDestinationsDelivered(destinations: Destination[], results: DestinationResult[]): void {
+  const fatal = results.filter(
+    result => result.failed > 0 && destinations.some(({ name, onFailure }) => name === result.name && onFailure === 'fail')
+  );
+  if (fatal.length > 0) {
+    const details = fatal.map(
+      ({ name, failed, errors }) => `"${name}" (${failed} failed, last error: ${errors[errors.length - 1]})`
+    );
+    throw new Error(`Failed to deliver to destination(s) ${details.join(', ')}`);
+  }
+}
@@ -0,0 +1,85 @@
+import * as core from '@actions/core';
+import { mkdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { getInput } from './config';
+import { IngestRequest } from './request';
+import { Commit } from './types';
+
+export interface DryRunOptions {
+  enabled: boolean;
+  file: string;
+}
+
+/**
+ * Read dry-run options from action inputs
+ */
+export function getDryRunOptions(): DryRunOptions {
+  return {
+    enabled: getInput('dry-run').trim().toLowerCase() === 'true',
+    file: resolve(getInput('dry-run-file').trim() || join(process.env.RUNNER_TEMP || tmpdir(), 'shiploud-dry-run.json'))
+  };
+}
+
+/**
+ * Write every request that would have been sent (exact signed body plus headers) to a JSON file
+ */
+export function writeDryRunFile(file: string, requests: IngestRequest[]): void {
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(
+    file,
+    JSON.stringify(
+      {
+        dry_run: true,
+        requests: requests.map(request => ({ method: 'POST', ...request }))
+      },
+      null,
+      2
+    )
+  );
+}
+
+// Summary tables are rendered as HTML
+export function escapeCell(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Render the commits that would have been published as a table in the job summary
+ */
+export async function writeDryRunSummary(file: string, requests: IngestRequest[]): Promise<void> {
+  if (!process.env.GITHUB_STEP_SUMMARY) {
+    core.info('No job summary available - skipping dry-run summary');
+    return;
+  }
+
+  const commits: Commit[] = requests.flatMap(request => JSON.parse(request.body).commits ?? []);
+  const rows = commits.map(commit => [
+    commit.id.substring(0, 7),
+    escapeCell(commit.author.name),
+    escapeCell(commit.message.split('\n')[0]),
+    String(commit.files.total_changes),
+    `+${commit.additions ?? 0} -${commit.deletions ?? 0}`
+  ]);
+
+  try {
+    core.summary.addHeading('shiploud.so dry run', 2);
+    core.summary.addRaw(
+      `Nothing was sent. ${commits.length} commits in ${requests.length} request(s) were written to \`${file}\`.`,
+      true
+    );
+    core.summary.addTable([
+      [
+        { data: 'Commit', header: true },
+        { data: 'Author', header: true },
+        { data: 'Message', header: true },
+        { data: 'Files', header: true },
+        { data: 'Lines', header: true }
+      ],
+      ...rows
+    ]);
+    await core.summary.write();
+  } catch (error) {
+    core.warning(`Failed to write dry-run job summary: ${error}`);
+  }
+}
@@ -0,0 +1,273 @@
+import * as core from '@actions/core';
+import { getInput } from './config';
+import {
+  DEFAULT_GITHUB_RETRY_OPTIONS,
+  GitHubRetryOptions,
+  RateLimitState,
+  createRateLimitState,
+  mapWithConcurrency,
+  withGitHubRetry
+} from './github-retry';
+import { ChangeBreakdown, summarizeChanges } from './breakdown';
+import { commitUrl, getGitHubServer } from './server';
+import { CommitFile, toVerification } from './commits';
+import { Commit, CommitVerification, FileChange, Octokit, RawCommit } from './types';
+
+export const DEFAULT_ENRICHMENT_CONCURRENCY = 4;
+export const DEFAULT_MAX_COMMIT_FILES = 1000;
+// getCommit returns at most 300 files per page
+const COMMIT_FILES_PAGE_SIZE = 300;
+
+export type EnrichmentLevel = 'full' | 'partial' | 'none';
+
+export interface EnrichmentOptions {
+  concurrency: number;
+  retry: GitHubRetryOptions;
+  // Files exported per commit; larger commits are marked truncated
+  maxFiles: number;
+  // Web root for commit links (github.com or an Enterprise Server)
+  serverUrl: string;
+}
+
+export interface EnrichmentStats {
+  full: number;
+  partial: number;
+  none: number;
+}
+
+/**
+ * The parts of a getCommit response used for enrichment; may be prefetched from another endpoint
+ */
+export interface CommitDetails {
+  files?: CommitFile[];
+  stats?: { additions?: number; deletions?: number };
+  parents?: Array<{ sha: string }>;
+  // Number of changed files when `files` only holds the first pages
+  total_files?: number;
+  commit?: { verification?: { verified: boolean; reason: string } };
+  committer?: { login: string } | null;
+}
+
+export interface FormattedCommit {
+  commit: Commit;
+  enrichment: EnrichmentLevel;
+}
+
+/**
+ * Read enrichment options from action inputs, falling back to the defaults
+ */
+export function getEnrichmentOptions(): EnrichmentOptions {
+  const raw = getInput('enrichment-concurrency').trim();
+  const concurrency = raw ? parseInt(raw, 10) : DEFAULT_ENRICHMENT_CONCURRENCY;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid enrichment-concurrency "${raw}" - expected a positive integer`);
+  }
+
+  const rawMaxFiles = getInput('max-commit-files').trim();
+  const maxFiles = rawMaxFiles ? parseInt(rawMaxFiles, 10) : DEFAULT_MAX_COMMIT_FILES;
+  if (!Number.isInteger(maxFiles) || maxFiles < 1) {
+    throw new Error(`Invalid max-commit-files "${rawMaxFiles}" - expected a positive integer`);
+  }
+
+  return { concurrency, retry: DEFAULT_GITHUB_RETRY_OPTIONS, maxFiles, serverUrl: getGitHubServer().serverUrl };
+}
+
+/**
+ * Page number of the rel="last" entry in a Link header, or null when there is no further page
+ */
+function lastPage(link: string | undefined): number | null {
+  const match = link?.match(/<[^>]*[?&]page=(\d+)[^>]*>;\s*rel="last"/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Fetch a commit's files and stats, retrying transient failures. Files are paginated until
+ * `maxFiles` is reached; past it only the last page is read, to count the remaining files.
+ */
+async function fetchCommitDetails(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  sha: string,
+  rateLimit: RateLimitState,
+  options: EnrichmentOptions
+): Promise<CommitDetails> {
+  core.info(`📡 Fetching file changes for commit ${sha.substring(0, 7)} via GitHub API`);
+  const fetchPage = (page: number) =>
+    withGitHubRetry(
+      () => octokit.rest.repos.getCommit({ owner, repo, ref: sha, per_page: COMMIT_FILES_PAGE_SIZE, page }),
+      rateLimit,
+      options.retry
+    );
+
+  const response = await fetchPage(1);
+  const pages = lastPage(response.headers?.link) ?? 1;
+  if (pages === 1) {
+    return response.data;
+  }
+
+  const files = [...(response.data.files ?? [])];
+  let page = 1;
+  while (page < pages && files.length < options.maxFiles) {
+    page++;
+    files.push(...((await fetchPage(page)).data.files ?? []));
+  }
+
+  let totalFiles = files.length;
+  if (page < pages) {
+    const last = await fetchPage(pages);
+    totalFiles = (pages - 1) * COMMIT_FILES_PAGE_SIZE + (last.data.files?.length ?? 0);
+  }
+
+  return { ...response.data, files, total_files: totalFiles };
+}
+
+/**
+ * Keep a file's status, line stats and rename source, dropping the patch and blob links
+ */
+export function toFileChange(file: CommitFile): FileChange {
+  return {
+    filename: file.filename,
+    status: file.status,
+    additions: file.additions ?? 0,
+    deletions: file.deletions ?? 0,
+    ...(file.previous_filename && { previous_filename: file.previous_filename })
+  };
+}
+
+// Commits come straight from event payloads, so any field may be missing
+function isWellFormed(commit: Partial<RawCommit> | null | undefined): commit is RawCommit {
+  return !!commit?.id && !!commit?.message && !!commit?.author;
+}
+
+/**
+ * Validate a raw commit and enrich it with file changes and line stats from the GitHub API
+ */
+export async function formatCommit(
+  commit: Partial<RawCommit> | null | undefined,
+  octokit: Octokit | null,
+  owner: string,
+  repo: string,
+  rateLimit: RateLimitState,
+  options: EnrichmentOptions,
+  prefetched?: CommitDetails
+): Promise<FormattedCommit | null> {
+  if (!isWellFormed(commit)) {
+    core.warning(`Skipping malformed commit: ${JSON.stringify(commit)}`);
+    return null;
+  }
+
+  // GitHub intentionally removed file changes from push payloads in Actions (Oct 2019)
+  // We must fetch them via API as GitHub intended
+
+  let addedFiles: string[] = [];
+  let modifiedFiles: string[] = [];
+  let removedFiles: string[] = [];
+  let changes: FileChange[] | undefined;
+  let totalFiles: number | undefined;
+  let breakdown: ChangeBreakdown | undefined;
+  let additions: number | undefined;
+  let deletions: number | undefined;
+  let parents: string[] | undefined = commit.parents;
+  let verification: CommitVerification | undefined = commit.verification;
+  let enrichment: EnrichmentLevel = 'none';
+
+  const detailsRequest = prefetched
+    ? Promise.resolve(prefetched)
+    : octokit && fetchCommitDetails(octokit, owner, repo, commit.id, rateLimit, options);
+
+  if (detailsRequest) {
+    try {
+      const commitDetails = await detailsRequest;
+
+      changes = commitDetails.files?.map(toFileChange);
+      totalFiles = commitDetails.total_files ?? changes?.length;
+      if (changes && totalFiles !== undefined && totalFiles > options.maxFiles) {
+        core.warning(
+          `Commit ${commit.id.substring(0, 7)} changes ${totalFiles} files - exporting the first ${options.maxFiles}`
+        );
+        changes = changes.slice(0, options.maxFiles);
+      }
+      addedFiles = changes?.filter(f => f.status === 'added').map(f => f.filename) || [];
+      modifiedFiles = changes?.filter(f => f.status === 'modified').map(f => f.filename) || [];
+      removedFiles = changes?.filter(f => f.status === 'removed').map(f => f.filename) || [];
+      breakdown = changes && summarizeChanges(changes);
+
+      // Extract line-level statistics
+      additions = commitDetails.stats?.additions;
+      deletions = commitDetails.stats?.deletions;
+      parents = commitDetails.parents?.map(parent => parent.sha) ?? parents;
+      verification = commitDetails.commit?.verification ? toVerification(commitDetails) : verification;
+      enrichment = commitDetails.files && commitDetails.stats ? 'full' : 'partial';
+
+      const renamed = changes?.filter(f => f.previous_filename).length ?? 0;
+      core.info(
+        `✅ Found ${addedFiles.length} added, ${modifiedFiles.length} modified, ${removedFiles.length} removed` +
+          `${renamed > 0 ? `, ${renamed} renamed or copied` : ''} files`
+      );
+      core.info(`📊 Stats: +${additions ?? 0} -${deletions ?? 0} lines`);
+    } catch (error) {
+      core.warning(`Failed to fetch commit details for ${commit.id}: ${error}`);
+      core.warning('Proceeding without file change information');
+    }
+  } else {
+    core.warning('No GitHub token available - cannot fetch file changes');
+    core.warning('File changes will be empty for this commit');
+  }
+
+  // Trim message defensively to avoid oversized payloads
+  const safeMessage =
+    typeof commit.message === 'string' && commit.message.length > 10000
+      ? commit.message.slice(0, 10000)
+      : commit.message;
+
+  const formatted: Commit = {
+    id: commit.id,
+    message: safeMessage,
+    author: {
+      name: commit.author.name,
+      email: commit.author.email
+    },
+    timestamp: commit.timestamp,
+    url: commitUrl(options.serverUrl, owner, repo, commit.id),
+    ...(parents && { parents }),
+    additions,
+    deletions,
+    files: {
+      added: addedFiles,
+      modified: modifiedFiles,
+      removed: removedFiles,
+      ...(changes && { changes }),
+      total_changes: totalFiles ?? addedFiles.length + modifiedFiles.length + removedFiles.length,
+      ...(changes && totalFiles !== undefined && totalFiles > changes.length && { truncated: true })
+    },
+    ...(breakdown && { breakdown }),
+    ...(verification && { verification })
+  };
+
+  return { commit: formatted, enrichment };
+}
+
+/**
+ * Format a list of raw commits with bounded concurrency, dropping the malformed ones
+ */
+export async function formatCommits(
+  commits: Array<Partial<RawCommit> | null | undefined>,
+  octokit: Octokit | null,
+  owner: string,
+  repo: string,
+  options: EnrichmentOptions,
+  prefetched: Map<string, CommitDetails> = new Map()
+): Promise<Commit[]> {
+  const rateLimit = createRateLimitState();
+  const formattedCommits = await mapWithConcurrency(commits, options.concurrency, commit =>
+    formatCommit(commit, octokit, owner, repo, rateLimit, options, prefetched.get(commit?.id ?? ''))
+  );
+  const valid = formattedCommits.filter((c: FormattedCommit | null): c is FormattedCommit => c !== null);
+
+  const stats: EnrichmentStats = { full: 0, partial: 0, none: 0 };
+  valid.forEach(c => stats[c.enrichment]++);
+  core.info(`📊 Enrichment: ${stats.full} full, ${stats.partial} partial, ${stats.none} without file data`);
+
+  return valid.map(c => c.commit);
+}
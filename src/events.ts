@@ -0,0 +1,55 @@
+import { PullRequestPayload } from './pull-request';
+import { ReleasePayload } from './release';
+
+export type EventKind = 'push' | 'tag' | 'pull_request' | 'release' | 'backfill' | 'checks';
+
+/**
+ * Classify the triggering event; returns null for events that carry no exportable commits
+ */
+export function resolveEventKind(eventName: string, ref: string): EventKind | null {
+  switch (eventName) {
+    case 'push':
+      return ref.startsWith('refs/tags/') ? 'tag' : 'push';
+    case 'pull_request':
+      return 'pull_request';
+    case 'release':
+      return 'release';
+    case 'workflow_dispatch':
+      return 'backfill';
+    case 'workflow_run':
+    case 'check_suite':
+      return 'checks';
+    default:
+      return null;
+  }
+}
+
+/**
+ * The fields of the supported event payloads that name the branch the work landed on
+ */
+export interface BranchPayload {
+  base_ref?: string | null;
+  pull_request?: Partial<Pick<PullRequestPayload, 'number' | 'base'>>;
+  release?: Pick<ReleasePayload, 'target_commitish'>;
+  workflow_run?: { head_branch?: string | null };
+  check_suite?: { head_branch?: string | null };
+  repository?: { name?: string; default_branch?: string };
+}
+
+/**
+ * Resolve the branch (or tag) the exported work landed on
+ */
+export function resolveBranch(kind: EventKind | null, ref: string, payload: BranchPayload): string {
+  switch (kind) {
+    case 'pull_request':
+      return payload.pull_request?.base?.ref ?? ref;
+    case 'release':
+      return payload.release?.target_commitish ?? ref.replace('refs/tags/', '');
+    case 'tag':
+      return ref.replace('refs/tags/', '');
+    case 'checks':
+      return (payload.check_suite ?? payload.workflow_run)?.head_branch ?? ref.replace('refs/heads/', '');
+    default:
+      return ref.replace('refs/heads/', '');
+  }
+}
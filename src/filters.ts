@@ -0,0 +1,115 @@
+import * as core from '@actions/core';
+import { getInput } from './config';
+import { getListInput, matchesAnyGlob } from './glob';
+import { Commit } from './types';
+
+export const DEFAULT_SKIP_MARKER = '[skip-story]';
+
+// Dependency bots commit under their plain name locally and with a [bot] suffix on GitHub
+const BOT_NAMES = /^(?:dependabot(?:-preview)?|renovate)(?:\[bot\])?$/i;
+const MERGE_MESSAGE = /^Merge (?:pull request #\d+|(?:remote-tracking )?branch '[^']+'|tag '[^']+'|commit '[0-9a-f]+')/;
+
+export interface FilterOptions {
+  skipMarker: string;
+  excludeBots: boolean;
+  excludeMerges: boolean;
+  includePaths: string[];
+  excludePaths: string[];
+}
+
+export interface SkippedCommit {
+  id: string;
+  reason: string;
+}
+
+export interface FilterResult {
+  kept: Commit[];
+  skipped: SkippedCommit[];
+}
+
+/**
+ * Read commit filtering options from action inputs
+ */
+export function getFilterOptions(): FilterOptions {
+  const skipMarker = getInput('skip-marker');
+
+  return {
+    // An explicitly empty input is indistinguishable from an unset one, so "none" disables the marker
+    skipMarker: skipMarker.trim().toLowerCase() === 'none' ? '' : skipMarker.trim() || DEFAULT_SKIP_MARKER,
+    excludeBots: getInput('exclude-bots').trim().toLowerCase() === 'true',
+    excludeMerges: getInput('exclude-merge-commits').trim().toLowerCase() === 'true',
+    includePaths: getListInput('include-commit-paths'),
+    excludePaths: getListInput('exclude-commit-paths')
+  };
+}
+
+export function isBotAuthor(author: Commit['author']): boolean {
+  const name = author.name.trim();
+  const login = (author.email ?? '').split('@')[0];
+  return name.endsWith('[bot]') || login.endsWith('[bot]') || BOT_NAMES.test(name);
+}
+
+/**
+ * Parent SHAs are authoritative; push payloads lack them, so fall back to git's default merge messages
+ */
+export function isMergeCommit(commit: Commit): boolean {
+  return commit.parents ? commit.parents.length > 1 : MERGE_MESSAGE.test(commit.message);
+}
+
+function changedPaths(commit: Commit): string[] {
+  if (commit.files.changes) return commit.files.changes.map(change => change.filename);
+  return [...commit.files.added, ...commit.files.modified, ...commit.files.removed];
+}
+
+/**
+ * Why a commit should not be exported, or null to keep it
+ */
+export function skipReason(commit: Commit, options: FilterOptions): string | null {
+  if (options.skipMarker && commit.message.includes(options.skipMarker)) {
+    return `message contains "${options.skipMarker}"`;
+  }
+  if (options.excludeBots && isBotAuthor(commit.author)) {
+    return `bot author "${commit.author.name}"`;
+  }
+  if (options.excludeMerges && isMergeCommit(commit)) {
+    return 'merge commit';
+  }
+
+  // Without file data there is nothing to match, so path filters never drop the commit
+  const paths = changedPaths(commit);
+  if (paths.length > 0 && (options.includePaths.length > 0 || options.excludePaths.length > 0)) {
+    const relevant = paths.filter(
+      path =>
+        !matchesAnyGlob(path, options.excludePaths) &&
+        (options.includePaths.length === 0 || matchesAnyGlob(path, options.includePaths))
+    );
+    if (relevant.length === 0) {
+      return 'only filtered paths changed';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Split commits into those to export and those skipped by the filtering rules, logging every skip
+ */
+export function filterCommits(commits: Commit[], options: FilterOptions): FilterResult {
+  const result: FilterResult = { kept: [], skipped: [] };
+
+  for (const commit of commits) {
+    const reason = skipReason(commit, options);
+    if (reason) {
+      core.info(`⏭️ Skipping ${commit.id.substring(0, 7)}: ${reason}`);
+      result.skipped.push({ id: commit.id, reason });
+    } else {
+      result.kept.push(commit);
+    }
+  }
+
+  if (result.skipped.length > 0) {
+    core.info(`⏭️ Skipped ${result.skipped.length} of ${commits.length} commits by filtering rules`);
+  }
+
+  return result;
+}
@@ -0,0 +1,143 @@
+import * as core from '@actions/core';
+
+export interface GitHubRetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  // Never sleep longer than this for a single wait (rate limit resets can be up to an hour away)
+  maxWaitMs: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Rate limit budget as last reported by GitHub, shared by every worker of a run
+ */
+export interface RateLimitState {
+  remaining: number | null;
+  resetAt: number | null; // epoch milliseconds
+}
+
+export const DEFAULT_GITHUB_RETRY_OPTIONS: GitHubRetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxWaitMs: 60_000
+};
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export function createRateLimitState(): RateLimitState {
+  return { remaining: null, resetAt: null };
+}
+
+function header(headers: Record<string, unknown> | undefined, name: string): string | undefined {
+  const value = headers?.[name];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+/**
+ * The fields of an Octokit request error the retry logic reads
+ */
+interface GitHubRequestError {
+  status?: number;
+  message?: string;
+  response?: { headers?: Record<string, unknown> };
+}
+
+function asRequestError(error: unknown): GitHubRequestError {
+  return error && typeof error === 'object' ? (error as GitHubRequestError) : {};
+}
+
+/**
+ * Remember the budget reported in x-ratelimit-* response headers
+ */
+export function recordRateLimit(state: RateLimitState, headers: Record<string, unknown> | undefined): void {
+  const remaining = header(headers, 'x-ratelimit-remaining');
+  const reset = header(headers, 'x-ratelimit-reset');
+  if (remaining !== undefined) state.remaining = parseInt(remaining, 10);
+  if (reset !== undefined) state.resetAt = parseInt(reset, 10) * 1000;
+}
+
+/**
+ * Compute how long to wait before retrying a failed GitHub request, or null when it should not be retried
+ */
+export function retryDelay(error: unknown, attempt: number, options: GitHubRetryOptions): number | null {
+  const { status, message, response } = asRequestError(error);
+  const headers = response?.headers;
+  const backoff = options.baseDelayMs * Math.pow(2, attempt - 1);
+
+  const retryAfter = header(headers, 'retry-after');
+  if (retryAfter !== undefined && !isNaN(Number(retryAfter))) {
+    return Math.min(Number(retryAfter) * 1000, options.maxWaitMs);
+  }
+
+  if ((status === 403 || status === 429) && header(headers, 'x-ratelimit-remaining') === '0') {
+    const reset = Number(header(headers, 'x-ratelimit-reset')) * 1000;
+    return Math.min(Math.max(reset - Date.now(), backoff), options.maxWaitMs);
+  }
+
+  const isSecondaryLimit = status === 403 && /secondary rate limit|abuse/i.test(message ?? '');
+  if (status === 429 || isSecondaryLimit || status === undefined || status >= 500) {
+    return Math.min(backoff, options.maxWaitMs);
+  }
+
+  return null;
+}
+
+/**
+ * Run a GitHub API request, pausing while the rate limit is exhausted and retrying
+ * transient failures (5xx, network errors, 429 and 403 rate limit/abuse responses)
+ */
+export async function withGitHubRetry<T extends { headers?: Record<string, unknown> }>(
+  request: () => Promise<T>,
+  state: RateLimitState,
+  options: GitHubRetryOptions = DEFAULT_GITHUB_RETRY_OPTIONS
+): Promise<T> {
+  const sleep = options.sleep ?? defaultSleep;
+
+  for (let attempt = 1; ; attempt++) {
+    if (state.remaining === 0 && state.resetAt !== null && state.resetAt > Date.now()) {
+      const wait = Math.min(state.resetAt - Date.now(), options.maxWaitMs);
+      core.info(`⏳ GitHub API rate limit exhausted - waiting ${Math.ceil(wait / 1000)}s for reset`);
+      await sleep(wait);
+      state.remaining = null;
+    }
+
+    try {
+      const response = await request();
+      recordRateLimit(state, response.headers);
+      return response;
+    } catch (error) {
+      const { status, message, response } = asRequestError(error);
+      recordRateLimit(state, response?.headers);
+
+      const delay = retryDelay(error, attempt, options);
+      if (delay === null || attempt >= options.maxAttempts) {
+        throw error;
+      }
+
+      core.info(`⏳ GitHub API request failed (${status ?? message}) - retrying in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Map over items with at most `limit` promises in flight, preserving order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
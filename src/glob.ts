@@ -0,0 +1,54 @@
+import { getInput } from './config';
+
+/**
+ * Read a multi-value input separated by newlines or commas, ignoring blanks and # comments.
+ * Inputs whose entries may contain commas themselves (regular expressions) pass a newline-only separator.
+ */
+export function getListInput(name: string, separator: RegExp = /[\n,]/): string[] {
+  return getInput(name)
+    .split(separator)
+    .map(entry => entry.trim())
+    .filter(entry => entry && !entry.startsWith('#'));
+}
+
+/**
+ * Convert a glob to a RegExp: `**` spans directories, `*` and `?` stay within one path segment,
+ * and a trailing `/` matches everything below that directory
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.endsWith('/') ? `${glob}**` : glob;
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` also matches zero directories
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Match a repository path against globs; globs without a `/` match the file name in any directory
+ */
+export function matchesAnyGlob(path: string, globs: string[]): boolean {
+  const basename = path.substring(path.lastIndexOf('/') + 1);
+  return globs.some(glob => {
+    const regexp = globToRegExp(glob);
+    return regexp.test(path) || (!glob.includes('/') && regexp.test(basename));
+  });
+}
@@ -1,31 +1,66 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
-import { createHmac } from 'crypto';
-
-interface Commit {
-  id: string;
-  message: string;
-  author: { name: string; email: string };
-  timestamp: string;
-  url: string;
-  additions?: number;
-  deletions?: number;
-  files: {
-    added: string[];
-    modified: string[];
-    removed: string[];
-    total_changes: number;
-  };
-}
-
-// Hard-default to production ingest endpoint; allow override via input/env if needed
-const DEFAULT_INGEST_URL = 'https://shiploud.so/api/github-actions/ingest';
-const INGEST_URL = (
-  core.getInput('ingest-url') ||
-  process.env.SHIPLOUD_INGEST_URL ||
-  process.env.BUILDINPUBLIC_INGEST_URL || // backward compatibility
-  DEFAULT_INGEST_URL
-).trim();
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Commit, RawCommit } from './types';
+import { loadRepoConfig, useRepoConfig } from './config';
+import { getGitHubServer } from './server';
+import { IngestRequest, buildIngestRequest } from './request';
+import { DEFAULT_DELIVERY_OPTIONS, DeliveryOptions, deliverWithRetry, getDeliveryOptions } from './delivery';
+import {
+  applyPrivacy,
+  createPrivacyReport,
+  getPrivacyOptions,
+  logPrivacyReport,
+  protectEmail,
+  redactText
+} from './privacy';
+import { parseCommitMessage } from './message';
+import { attachCheckStatus, checkedRange, getCheckOptions, isCompletedRun, isOwnPushRun } from './checks';
+import { createAssociationCache, getAssociationOptions, linkAssociations, seedPullRequest } from './associations';
+import { filterCommits, getFilterOptions } from './filters';
+import {
+  RunReport,
+  createRunReport,
+  recordBatch,
+  recordIngestResult,
+  rejectedCommits,
+  setReportOutputs,
+  writeRunSummary
+} from './report';
+import { ResendResult, partialDeliveryError, sendWithResend } from './response';
+import {
+  PRIMARY_DESTINATION,
+  assertDestinationsDelivered,
+  buildDestinationRequest,
+  createDestinationResult,
+  deliverToDestination,
+  getDestinations
+} from './destinations';
+import { flushOutbox, getOutboxOptions, saveToOutbox } from './outbox';
+import { IngestPayload, SCHEMA_VERSION, assertValidPayload, toIngestPayload } from './payload';
+import { DryRunOptions, getDryRunOptions, writeDryRunFile, writeDryRunSummary } from './dry-run';
+import { CommitDetails, formatCommits, getEnrichmentOptions } from './enrich';
+import { getBackfillOptions, runBackfill } from './backfill';
+import { PushMetadata, isDeletedRef, resolvePushCommits, toPushMetadata } from './push';
+import { BranchAction, getBranchPolicy, policyBranch, resolveBranchAction } from './branch-policy';
+import { BatchDeliveryResult, getBatchLimits, sendInBatches } from './batch';
+import { resolveBranch, resolveEventKind } from './events';
+import {
+  PullRequestMetadata,
+  PullRequestPayload,
+  isMergedPullRequest,
+  listPullRequestCommits,
+  toPullRequestMetadata
+} from './pull-request';
+import {
+  ReleaseMetadata,
+  findPreviousTag,
+  isPublishedRelease,
+  listReleaseCommits,
+  toReleaseMetadata
+} from './release';
 
 /**
  * GitHub Action entry point for shiploud.so commit export
@@ -41,112 +76,353 @@ export async function run(): Promise<void> {
     const context = github.context;
     const { payload } = context;
 
-    // Extract branch information from the context
-    const branch = context.ref.replace('refs/heads/', '');
+    // Extract branch information from the context (merged PRs report their base branch, tags their name)
+    const eventKind = resolveEventKind(context.eventName, context.ref);
+    const branch = resolveBranch(eventKind, context.ref, payload);
 
     core.info(`Repository: ${context.repo.owner}/${context.repo.repo}`);
     core.info(`Branch: ${branch}`);
     core.info(`Event: ${context.eventName}`);
 
-    // Bail out early for events that do not contain commit lists
-    if (context.eventName !== 'push') {
-      core.warning(`Unsupported event "${context.eventName}". This action currently processes only push events.`);
+    // Start timing for diagnostics (not sent to API)
+    const startTime = Date.now();
+
+    // Get GitHub token for API calls (required since GitHub removed file changes from push payloads in Actions)
+    // Enterprise Server runners provide their own server and API URLs in the context
+    const server = getGitHubServer(context);
+    const githubToken = core.getInput('github-token') || process.env.GITHUB_TOKEN;
+    const octokit = githubToken ? github.getOctokit(githubToken, { baseUrl: server.apiUrl }) : null;
+
+    // Settings from .shiploud.yml apply wherever the workflow leaves an input empty
+    useRepoConfig(await loadRepoConfig(octokit, context.repo.owner, context.repo.repo, context.sha));
+
+    // Large pushes are split into size-bounded batches that are delivered independently
+    const batchLimits = getBatchLimits();
+    const enrichmentOptions = getEnrichmentOptions();
+    const deliveryOptions = getDeliveryOptions();
+    const destinations = getDestinations(deliveryOptions);
+
+    // Everything exported or skipped is collected for the step outputs and the job summary
+    const report = createRunReport();
+    const primaryResult = createDestinationResult(PRIMARY_DESTINATION, 'shiploud');
+    const destinationResults = destinations.map(({ name, format }) => createDestinationResult(name, format));
+    report.destinations.push(primaryResult, ...destinationResults);
+
+    // Filtering runs before the privacy controls so bot emails and excluded paths can still be matched
+    const filterOptions = getFilterOptions();
+    const filter = (commits: Commit[]): Commit[] => {
+      const result = filterCommits(commits, filterOptions);
+      report.skipped.push(...result.skipped);
+      return result.kept;
+    };
+
+    // branch-policy decides per branch whether commits are published, sent as drafts or not exported at all
+    const branchPolicy = getBranchPolicy();
+    const branchActionFor = (target: string): BranchAction => {
+      const action = resolveBranchAction(target, payload.repository?.default_branch, branchPolicy);
+      if (action === 'skip') {
+        core.info(`Branch "${target}" is skipped by branch-policy - nothing to export`);
+        core.setOutput('commits', 0);
+      } else if (action === 'draft') {
+        core.info(`📝 Branch "${target}" is exported as drafts by branch-policy`);
+      }
+      return action;
+    };
+
+    // Check runs are read after filtering; in require mode commits that are not green yet are held back
+    const checkOptions = getCheckOptions(context.runId);
+    if (checkOptions.mode !== 'off' && !octokit) {
+      core.warning('check-status needs a GitHub token - commits are exported without their check status');
+    }
+    const gate = async (commits: Commit[]): Promise<Commit[]> => {
+      if (checkOptions.mode === 'off' || !octokit || commits.length === 0) return commits;
+      const result = await attachCheckStatus(commits, octokit, context.repo.owner, context.repo.repo, checkOptions);
+      report.skipped.push(...result.skipped);
+      return result.kept;
+    };
+
+    // Privacy controls are applied to everything before it leaves the runner
+    const privacyOptions = getPrivacyOptions();
+    const privacyReport = createPrivacyReport();
+    // Messages are parsed after redaction so the structured fields never hold anything the message no longer does
+    const protect = (commits: Commit[]): Commit[] =>
+      commits.map(commit => {
+        const exported = applyPrivacy(commit, privacyOptions, privacyReport);
+        return { ...exported, parsed: parseCommitMessage(exported.message) };
+      });
+
+    // Pull requests and referenced issues are looked up after redaction, once per run for shared ones
+    const associationOptions = getAssociationOptions();
+    const associationCache = createAssociationCache();
+    if (associationOptions.enabled && !octokit) {
+      core.warning('link-associations needs a GitHub token - commits are exported without pull requests and issues');
+    }
+    const link = async (commits: Commit[]): Promise<Commit[]> =>
+      associationOptions.enabled && octokit
+        ? linkAssociations(
+            commits,
+            octokit,
+            context.repo.owner,
+            context.repo.repo,
+            associationCache,
+            associationOptions,
+            text => redactText(text, privacyOptions.redactionPatterns, privacyReport)
+          )
+        : commits;
+
+    // Batches that still fail after every retry are kept in the outbox and resent by a later run.
+    // Outbox entries that fail again are already stored, so saving them is a no-op.
+    const outbox = getOutboxOptions();
+    core.setOutput('outbox-dir', outbox.dir);
+    // Dry runs build and sign every request exactly as usual but record it instead of sending it
+    const dryRun = getDryRunOptions();
+    const dryRunRequests: IngestRequest[] = [];
+    const dryRunFanOut: IngestRequest[] = [];
+    const send = async (batch: IngestPayload): Promise<number | void> => {
+      if (dryRun.enabled) {
+        dryRunRequests.push(buildIngestRequest(batch, apiToken));
+        recordBatch(report, batch, 'dry run');
+        return;
+      }
+      // Only commits the API rejected as retriable are resent
+      const responses: string[] = [];
+      let result: ResendResult;
+      try {
+        result = await sendWithResend(
+          batch,
+          async pending => {
+            const response = await sendToBuildinpublicSo(pending, apiToken, startTime, deliveryOptions);
+            responses.push(response);
+            return response;
+          },
+          deliveryOptions
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        recordBatch(report, batch, 'failed');
+        primaryResult.failed++;
+        primaryResult.errors.push(message);
+        saveToOutbox(outbox.dir, batch, message);
+        throw error;
+      }
+      recordIngestResult(report, batch, result, responses);
+      primaryResult.commits += result.accepted.length;
+      if (result.undelivered) {
+        // Commits accepted before a resend round failed stay delivered; only the rest wait in the outbox
+        const { ids, error } = result.undelivered;
+        primaryResult.failed++;
+        primaryResult.errors.push(error);
+        saveToOutbox(outbox.dir, { ...batch, commits: batch.commits.filter(commit => ids.includes(commit.id)) }, error);
+        throw partialDeliveryError(
+          `${ids.length} of ${batch.commits.length} commits could not be resent: ${error}`,
+          result.accepted.length
+        );
+      }
+      primaryResult.delivered++;
+      return result.accepted.length;
+    };
+    // Additional destinations get every batch whatever happened to the others; outbox resends are not fanned out
+    const fanOut = async (batch: IngestPayload): Promise<void> => {
+      for (const [i, destination] of destinations.entries()) {
+        if (dryRun.enabled) {
+          dryRunFanOut.push(buildDestinationRequest(destination, batch));
+        } else {
+          await deliverToDestination(destination, batch, destinationResults[i]);
+        }
+      }
+    };
+    // Malformed payloads throw here, before they are signed, stored or fanned out
+    const deliver = async (batch: { commits: Commit[] } & Record<string, unknown>): Promise<number | void> => {
+      const payload = toIngestPayload(batch);
+      try {
+        return await send(payload);
+      } finally {
+        await fanOut(payload);
+      }
+    };
+    const publishReport = async (): Promise<void> => {
+      setReportOutputs(report);
+      if (!dryRun.enabled) {
+        await writeRunSummary(report);
+      }
+    };
+
+    if (dryRun.enabled) {
+      core.info(`📝 Dry run enabled - requests will be written to ${dryRun.file} instead of being sent`);
+    }
+
+    // Deliver what earlier runs could not before exporting anything new
+    let flushed = new Set<string>();
+    if (!dryRun.enabled) {
+      const flush = await flushOutbox(outbox, entry => send(toIngestPayload(entry)));
+      flushed = new Set(flush.delivered);
+      if (outbox.flushOnly) {
+        core.setOutput('commits', flush.accepted);
+        await publishReport();
+        if (flush.pending > 0) {
+          throw new Error(`${flush.pending} outbox entries could not be delivered and remain in ${outbox.dir}`);
+        }
+        core.info(`✅ Outbox flushed (${flush.accepted} commits accepted)`);
+        return;
+      }
+    } else if (outbox.flushOnly) {
+      core.info('📝 Dry run - the outbox is not flushed');
       core.setOutput('commits', 0);
       return;
     }
 
-    // Extract commits from the push payload
-    const commits = payload.commits || [];
+    // Bail out for events that do not contain commit lists
+    if (!eventKind) {
+      core.warning(
+        `Unsupported event "${context.eventName}". This action currently processes only push, merged pull_request, published release, completed workflow_run/check_suite and workflow_dispatch (backfill) events.`
+      );
+      core.setOutput('commits', 0);
+      return;
+    }
 
-    if (commits.length === 0) {
-      core.info('No commits found in push payload');
+    if (eventKind === 'pull_request' && !isMergedPullRequest(payload)) {
+      core.info('Pull request was not merged - nothing to export');
       core.setOutput('commits', 0);
       return;
     }
 
-    core.info(`Found ${commits.length} commits to process on branch "${branch}"`);
+    if ((eventKind === 'push' || eventKind === 'tag') && isDeletedRef(payload)) {
+      core.info(`Ref "${branch}" was deleted - nothing to export`);
+      core.setOutput('commits', 0);
+      return;
+    }
 
+    if (eventKind === 'release' && !isPublishedRelease(payload)) {
+      core.info(`Release action "${payload.action}" is not "published" - nothing to export`);
+      core.setOutput('commits', 0);
+      return;
+    }
 
-    // Start timing for diagnostics (not sent to API)
-    const startTime = Date.now();
+    if (eventKind === 'checks' && !isCompletedRun(payload)) {
+      core.info(`${context.eventName} action "${payload.action}" is not "completed" - nothing to export`);
+      core.setOutput('commits', 0);
+      return;
+    }
 
-    // Get GitHub token for API calls (required since GitHub removed file changes from push payloads in Actions)
-    const githubToken = core.getInput('github-token') || process.env.GITHUB_TOKEN;
-    const octokit = githubToken ? github.getOctokit(githubToken) : null;
+    if (eventKind === 'checks' && !isOwnPushRun(payload, `${context.repo.owner}/${context.repo.repo}`)) {
+      core.info(`${context.eventName} did not run for a push to this repository - nothing to export`);
+      core.setOutput('commits', 0);
+      return;
+    }
 
-    // Format commits for shiploud.so API with validation
-    const formattedCommits = await Promise.all(
-      commits.map(async (commit: any): Promise<Commit | null> => {
-        if (!commit?.id || !commit?.message || !commit?.author) {
-          core.warning(`Skipping malformed commit: ${JSON.stringify(commit)}`);
-          return null;
-        }
+    // Manual dispatches backfill historical commits in resumable batches
+    if (eventKind === 'backfill') {
+      if (!octokit) {
+        throw new Error('A GitHub token is required to backfill commit history');
+      }
 
-        // GitHub intentionally removed file changes from push payloads in Actions (Oct 2019)
-        // We must fetch them via API as GitHub intended
-    
-        let addedFiles: string[] = [];
-        let modifiedFiles: string[] = [];
-        let removedFiles: string[] = [];
-        let additions: number | undefined;
-        let deletions: number | undefined;
-
-        if (octokit) {
-          try {
-            core.info(`📡 Fetching file changes for commit ${commit.id.substring(0, 7)} via GitHub API`);
-            const commitDetails = await octokit.rest.repos.getCommit({
-              owner: context.repo.owner,
-              repo: context.repo.repo,
-              ref: commit.id
-            });
-
-            addedFiles = commitDetails.data.files?.filter(f => f.status === 'added').map(f => f.filename) || [];
-            modifiedFiles = commitDetails.data.files?.filter(f => f.status === 'modified').map(f => f.filename) || [];
-            removedFiles = commitDetails.data.files?.filter(f => f.status === 'removed').map(f => f.filename) || [];
-
-            // Extract line-level statistics
-            additions = commitDetails.data.stats?.additions;
-            deletions = commitDetails.data.stats?.deletions;
-
-            core.info(`✅ Found ${addedFiles.length} added, ${modifiedFiles.length} modified, ${removedFiles.length} removed files`);
-            core.info(`📊 Stats: +${additions ?? 0} -${deletions ?? 0} lines`);
-          } catch (error) {
-            core.warning(`Failed to fetch commit details for ${commit.id}: ${error}`);
-            core.warning('Proceeding without file change information');
-          }
-        } else {
-          core.warning('No GitHub token available - cannot fetch file changes');
-          core.warning('File changes will be empty for this commit');
-        }
+      const options = getBackfillOptions(payload.inputs, branch);
+      const backfillAction = branchActionFor(options.branch);
+      if (backfillAction === 'skip') return;
+      // Never advance the real checkpoint for batches that were not sent; the throwaway one is removed afterwards
+      const dryRunStateDir = dryRun.enabled ? mkdtempSync(join(tmpdir(), 'shiploud-dry-run-')) : null;
+      if (dryRunStateDir) {
+        options.stateFile = join(dryRunStateDir, 'backfill-state.json');
+      } else {
+        core.setOutput('backfill-state', options.stateFile);
+      }
 
-        // Trim message defensively to avoid oversized payloads
-        const safeMessage =
-          typeof commit.message === 'string' && commit.message.length > 10000
-            ? commit.message.slice(0, 10000)
-            : commit.message;
-
-        return {
-          id: commit.id,
-          message: safeMessage,
-          author: {
-            name: commit.author.name,
-            email: commit.author.email
-          },
-          timestamp: commit.timestamp,
-          url: `https://github.com/${context.repo.owner}/${context.repo.repo}/commit/${commit.id}`,
-          additions,
-          deletions,
-          files: {
-            added: addedFiles,
-            modified: modifiedFiles,
-            removed: removedFiles,
-            total_changes: addedFiles.length + modifiedFiles.length + removedFiles.length
+      let backfilled = 0;
+      try {
+        await runBackfill(
+          octokit,
+          context.repo.owner,
+          context.repo.repo,
+          options,
+          enrichmentOptions,
+          async backfillPayload => {
+            const kept = filter(backfillPayload.commits);
+            if (kept.length === 0) return;
+            const protectedPayload = {
+              ...backfillPayload,
+              commits: await link(protect(kept)),
+              ...(backfillAction === 'draft' && { draft: true })
+            };
+            const delivery = await sendInBatches(protectedPayload, batchLimits, deliver);
+            backfilled += delivery.accepted;
+            assertDelivered(delivery);
           }
-        };
-      })
-    );
+        );
+      } finally {
+        if (dryRunStateDir) rmSync(dryRunStateDir, { recursive: true, force: true });
+        // Publish what was confirmed even when a later batch fails
+        await publishReport();
+      }
+      logPrivacyReport(privacyReport);
+
+      if (dryRun.enabled) {
+        await finishDryRun(dryRun, dryRunRequests, dryRunFanOut);
+      }
+
+      core.setOutput('commits', backfilled);
+      assertNoRejections(report, deliveryOptions);
+      assertDestinationsDelivered(destinations, destinationResults);
+
+      core.info(`✅ Successfully backfilled ${backfilled} commits`);
+      core.info(`⏱️ Elapsed: ${Math.ceil((Date.now() - startTime) / 1000)}s`);
+      return;
+    }
+
+    const branchAction = branchActionFor(policyBranch(eventKind, branch, payload));
+    if (branchAction === 'skip') return;
+
+    // Resolve the full push range via the compare API, or collect commits via the API for PRs, releases and tags
+    let commits: RawCommit[];
+    let prefetched = new Map<string, CommitDetails>();
+    let pullRequest: PullRequestMetadata | undefined;
+    let release: ReleaseMetadata | undefined;
+
+    if (eventKind === 'push') {
+      ({ commits, prefetched } = await resolvePushCommits(octokit, context.repo.owner, context.repo.repo, payload));
+    } else if (eventKind === 'checks') {
+      // A check suite's before/after range is resolved like a push; a workflow run only names its head commit
+      const { range, head } = checkedRange(payload);
+      ({ commits, prefetched } = range
+        ? await resolvePushCommits(octokit, context.repo.owner, context.repo.repo, {
+            ...range,
+            commits: head,
+            repository: payload.repository
+          })
+        : { commits: head, prefetched: new Map() });
+    } else {
+      if (!octokit) {
+        throw new Error(`A GitHub token is required to export ${eventKind.replace('_', ' ')} commits`);
+      }
+
+      if (eventKind === 'pull_request') {
+        pullRequest = toPullRequestMetadata(payload.pull_request as PullRequestPayload);
+        commits = await listPullRequestCommits(octokit, context.repo.owner, context.repo.repo, pullRequest.number);
+        seedPullRequest(associationCache, pullRequest, commits.map(commit => commit.id));
+      } else {
+        const tagName = eventKind === 'release' ? payload.release.tag_name : branch;
+        const previousTag = await findPreviousTag(octokit, context.repo.owner, context.repo.repo, tagName);
+        release = toReleaseMetadata(payload.release, tagName, previousTag);
+        commits = await listReleaseCommits(octokit, context.repo.owner, context.repo.repo, tagName, previousTag);
+      }
+    }
+
+    if (commits.length === 0) {
+      core.info(`No commits found in ${context.eventName} payload`);
+      core.setOutput('commits', 0);
+      return;
+    }
+
+    core.info(`Found ${commits.length} commits to process on branch "${branch}"`);
 
-    const validCommits = formattedCommits.filter((c: Commit | null): c is Commit => c !== null);
+    // Format commits for shiploud.so API with validation
+    const validCommits = await formatCommits(
+      commits,
+      octokit,
+      context.repo.owner,
+      context.repo.repo,
+      enrichmentOptions,
+      prefetched
+    );
 
     // Check if we have any valid commits after filtering
     if (validCommits.length === 0) {
@@ -159,22 +435,70 @@ export async function run(): Promise<void> {
       core.warning(`Filtered out ${commits.length - validCommits.length} malformed commits`);
     }
 
+    const keptCommits = await gate(
+      filter(validCommits).filter(commit => {
+        if (!flushed.has(commit.id)) return true;
+        core.info(`♻️ ${commit.id.substring(0, 7)} was already delivered from the outbox`);
+        return false;
+      })
+    );
+    if (keptCommits.length === 0) {
+      core.info('All commits were skipped or already delivered - nothing to send');
+      core.setOutput('commits', 0);
+      await publishReport();
+      return;
+    }
+
+    // Redact free text (messages, PR and release descriptions) and apply email/path controls
+    const exportedCommits = await link(protect(keptCommits));
+    const redact = (text: string | null) =>
+      text === null ? null : redactText(text, privacyOptions.redactionPatterns, privacyReport);
+    if (pullRequest) {
+      pullRequest = { ...pullRequest, title: redact(pullRequest.title) ?? '', body: redact(pullRequest.body) };
+    }
+    if (release) {
+      release = { ...release, name: redact(release.name), body: redact(release.body) };
+    }
+    let push: PushMetadata | undefined;
+    if (eventKind === 'push' || eventKind === 'tag') {
+      const { owner, repo } = context.repo;
+      push = toPushMetadata({ ref: context.ref, ...payload }, branch, server.serverUrl, owner, repo, context.runId);
+      if (push.pusher) {
+        const email = protectEmail(push.pusher.email, privacyOptions, privacyReport);
+        push = { ...push, pusher: { name: push.pusher.name, ...(email !== undefined && { email }) } };
+      }
+    }
+    logPrivacyReport(privacyReport);
+
     // Prepare shiploud.so API payload
-    const apiPayload = {
+    const apiPayload: IngestPayload = {
+      schema_version: SCHEMA_VERSION,
       repo: context.repo.repo,
       owner: context.repo.owner,
-      commits: validCommits
+      commits: exportedCommits,
+      ...(pullRequest && { pull_request: pullRequest }),
+      ...(release && { type: 'release' as const, release }),
+      ...(push && { push }),
+      ...(branchAction === 'draft' && { draft: true })
     };
 
-    // Send to shiploud.so API with retry logic
-    core.info(`📤 Sending ${validCommits.length} commits from branch "${branch}" to shiploud.so`);
-    await sendToBuildinpublicSo(apiPayload, apiToken, startTime);
+    // Send to shiploud.so API with retry logic (per batch)
+    core.info(`📤 Sending ${exportedCommits.length} commits from branch "${branch}" to shiploud.so`);
+    const delivery = await sendInBatches(apiPayload, batchLimits, deliver);
 
-    core.info(`✅ Successfully processed ${validCommits.length} commits`);
-    core.info(`⏱️ Elapsed: ${Math.ceil((Date.now() - startTime) / 1000)}s`);
+    // Set outputs (only commits the API actually accepted) before failing on undelivered batches
+    core.setOutput('commits', delivery.accepted);
+    await publishReport();
+    assertDelivered(delivery);
+    assertNoRejections(report, deliveryOptions);
+    assertDestinationsDelivered(destinations, destinationResults);
+
+    if (dryRun.enabled) {
+      await finishDryRun(dryRun, dryRunRequests, dryRunFanOut);
+    }
 
-    // Set outputs
-    core.setOutput('commits', validCommits.length);
+    core.info(`✅ Successfully processed ${delivery.accepted} commits`);
+    core.info(`⏱️ Elapsed: ${Math.ceil((Date.now() - startTime) / 1000)}s`);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     core.error(`❌ Action failed: ${errorMessage}`);
@@ -183,73 +507,58 @@ export async function run(): Promise<void> {
 }
 
 /**
- * Generate HMAC SHA-256 signature for the payload
+ * Persist the recorded dry-run requests (shiploud.so first, then other destinations) and summarize the commits
  */
-function generateSignature(payload: string, secret: string): string {
-  const hmac = createHmac('sha256', secret);
-  hmac.update(payload, 'utf8');
-  return `sha256=${hmac.digest('hex')}`;
+async function finishDryRun(
+  dryRun: DryRunOptions,
+  requests: IngestRequest[],
+  fanOut: IngestRequest[] = []
+): Promise<void> {
+  writeDryRunFile(dryRun.file, [...requests, ...fanOut]);
+  await writeDryRunSummary(dryRun.file, requests);
+  core.setOutput('dry-run-file', dryRun.file);
+  core.info(
+    `📝 Dry run: ${requests.length + fanOut.length} request(s) written to ${dryRun.file} - nothing was sent`
+  );
 }
 
 /**
- * Send payload to shiploud.so API with exponential backoff retry logic
+ * Fail the step when any batch could not be delivered, after the accepted ones were counted
  */
-export async function sendToBuildinpublicSo(payload: any, apiToken: string, startTime: number): Promise<void> {
-  const maxRetries = 5;
-  const baseDelay = 1000; // 1 second
-
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      core.info(`📡 Sending to shiploud.so API (attempt ${attempt}/${maxRetries})`);
-
-      const body = JSON.stringify(payload);
-      const signature = generateSignature(body, apiToken);
-
-
-      const response = await fetch(INGEST_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-          'X-Hub-Signature-256': signature,
-          'User-Agent': 'shiploud.so-Action/1.0.1'
-        },
-        body
-      });
-
-      // Minimal diagnostics 
-      core.info(`🔁 Response status: ${response.status}`);
-
-      const resultText = await response.text();
-
-      if (!response.ok) {
-        throw new Error(`API request failed: ${response.status} ${response.statusText} - ${resultText.slice(0, 200)}…`);
-      }
-
-      try {
-        JSON.parse(resultText);
-        core.info(`✅ API response OK`);
-      } catch {
-        throw new Error(`API responded with non-JSON payload`);
-      }
-
-      return; // Success - exit retry loop
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      core.warning(`⚠️ Attempt ${attempt} failed: ${errorMessage}`);
-
-      if (attempt === maxRetries) {
-        throw new Error(`Failed after ${maxRetries} attempts. Last error: ${errorMessage}`);
-      }
+function assertDelivered(delivery: BatchDeliveryResult): void {
+  if (delivery.failedBatches > 0) {
+    throw new Error(
+      `Failed to deliver ${delivery.failedBatches} of ${delivery.batches} batches ` +
+        `(${delivery.accepted} commits accepted). Last error: ${delivery.errors[delivery.errors.length - 1]}`
+    );
+  }
+}
 
-      // Exponential backoff: wait 1s, 2s, 4s
-      const delay = baseDelay * Math.pow(2, attempt - 1);
-      core.info(`⏳ Retrying in ${delay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
+/**
+ * Fail the step on commits the API rejected, when fail-on-rejection asks for it
+ */
+function assertNoRejections(report: RunReport, options: DeliveryOptions): void {
+  const rejected = rejectedCommits(report);
+  if (options.failOnRejection && rejected.length > 0) {
+    const reasons = rejected.map(({ commit, reason }) => `${commit.id.substring(0, 7)} (${reason})`).join(', ');
+    throw new Error(`The ingest API rejected ${rejected.length} commit(s): ${reasons}`);
   }
 }
 
+/**
+ * Send payload to shiploud.so API, retrying transient failures with jittered exponential backoff.
+ * Resolves with the response body; a payload that does not match the published schema is rejected before signing.
+ */
+export async function sendToBuildinpublicSo(
+  payload: IngestPayload,
+  apiToken: string,
+  startTime: number,
+  options: DeliveryOptions = DEFAULT_DELIVERY_OPTIONS
+): Promise<string> {
+  assertValidPayload(payload);
+  return deliverWithRetry(() => buildIngestRequest(payload, apiToken), options);
+}
+
 // Execute the action only if this module is run directly (not imported)
 if (require.main === module) {
   run();
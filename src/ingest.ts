@@ -0,0 +1,22 @@
+/**
+ * Package entry point for ingest servers: the payload types, the published JSON Schema and its validator,
+ * and the request signature check.
+ * The action itself runs from dist/index.js.
+ */
+export { PAYLOAD_SCHEMA, SCHEMA_VERSION, assertValidPayload, validatePayload } from './payload';
+export type { IngestPayload, JsonSchema } from './payload';
+export type { BackfillPayload } from './backfill';
+export type { BatchEnvelope } from './batch';
+export type { PullRequestMetadata } from './pull-request';
+export type { PushMetadata } from './push';
+export type { ReleaseMetadata } from './release';
+export {
+  DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+  DELIVERY_HEADER,
+  IDEMPOTENCY_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  verifyIngestSignature
+} from './request';
+export type { VerificationResult } from './request';
+export type { Commit, CommitVerification, FileChange } from './types';
@@ -0,0 +1,142 @@
+import { execFileSync } from 'child_process';
+import { CommitFile } from './commits';
+import { CommitDetails } from './enrich';
+import { RawCommit } from './types';
+
+// git output for big histories easily exceeds Node's 1 MiB default
+const GIT_MAX_BUFFER = 256 * 1024 * 1024;
+const FIELD_SEPARATOR = '\x1f';
+// Status letters and line stats per file, NUL-separated so any path survives
+const SHOW_ARGS = ['show', '--format=', '-z', '-M', '--diff-merges=first-parent', '--raw', '--numstat'];
+
+// Letters from `git show --raw`, mapped to the statuses the GitHub API uses
+const RAW_STATUSES: Record<string, string> = {
+  A: 'added',
+  D: 'removed',
+  M: 'modified',
+  R: 'renamed',
+  C: 'copied',
+  T: 'changed'
+};
+
+export interface LocalCommits {
+  commits: RawCommit[];
+  // Files and line stats per SHA, in the shape getCommit would return
+  details: Map<string, CommitDetails>;
+}
+
+function git(cwd: string, args: string[]): string {
+  try {
+    return execFileSync('git', args, { cwd, encoding: 'utf8', maxBuffer: GIT_MAX_BUFFER, stdio: 'pipe' });
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args[0]} failed: ${stderr || (error instanceof Error ? error.message : error)}`);
+  }
+}
+
+/**
+ * Parse `git log -z` output written with the format used by readLocalCommits(); oldest first
+ */
+export function parseGitLog(output: string): RawCommit[] {
+  return output
+    .split('\0')
+    .filter(record => record.trim())
+    .map(record => {
+      const [id, parents, name, email, timestamp, ...message] = record.replace(/^\n/, '').split(FIELD_SEPARATOR);
+      return {
+        id,
+        message: message.join(FIELD_SEPARATOR).replace(/\n+$/, ''),
+        author: { name, email },
+        timestamp,
+        parents: parents ? parents.split(' ') : []
+      };
+    });
+}
+
+/**
+ * Parse `git show --raw --numstat -z` output into per-file status and line stats.
+ * Binary files have no line counts and are reported with 0 additions and deletions.
+ */
+export function parseGitShow(output: string): CommitDetails {
+  const tokens = output.split('\0');
+  const files: CommitFile[] = [];
+  const byName = new Map<string, CommitFile>();
+  const count = (value: string) => (value === '-' ? 0 : parseInt(value, 10) || 0);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i].replace(/^\n+/, '');
+    if (!token) continue;
+
+    if (token.startsWith(':')) {
+      // ":<old mode> <new mode> <old sha> <new sha> <status>" followed by one path, or two for renames and copies
+      const letter = token.split(' ').pop()?.charAt(0) ?? '';
+      const status = RAW_STATUSES[letter] ?? 'changed';
+      const file: CommitFile =
+        letter === 'R' || letter === 'C'
+          ? { filename: tokens[i + 2], status, additions: 0, deletions: 0, previous_filename: tokens[i + 1] }
+          : { filename: tokens[i + 1], status, additions: 0, deletions: 0 };
+      i += file.previous_filename !== undefined ? 2 : 1;
+      files.push(file);
+      byName.set(file.filename, file);
+      continue;
+    }
+
+    // "<additions>\t<deletions>\t<path>", or an empty path followed by the source and target of a rename
+    const [additions, deletions, ...path] = token.split('\t');
+    let filename = path.join('\t');
+    if (!filename) {
+      filename = tokens[i + 2];
+      i += 2;
+    }
+    const file = byName.get(filename);
+    if (file) {
+      file.additions = count(additions);
+      file.deletions = count(deletions);
+    }
+  }
+
+  const stats = files.reduce(
+    (total, file) => ({ additions: total.additions + file.additions, deletions: total.deletions + file.deletions }),
+    { additions: 0, deletions: 0 }
+  );
+  return { files, stats };
+}
+
+/**
+ * Read commits in a revision range (or only HEAD) from a local checkout with their files and line stats.
+ * Merge commits are diffed against their first parent, like the GitHub commit API does.
+ */
+export function readLocalCommits(cwd: string, range: string | undefined, maxCount?: number): LocalCommits {
+  const format = ['%H', '%P', '%an', '%ae', '%aI', '%B'].join('%x1f');
+  const args = ['log', '-z', '--reverse', `--format=${format}`];
+  if (maxCount !== undefined) args.push(`--max-count=${maxCount}`);
+  args.push(...(range ? [range] : ['-1', 'HEAD']), '--');
+  const commits = parseGitLog(git(cwd, args));
+
+  const details = new Map<string, CommitDetails>();
+  for (const commit of commits) {
+    const show = git(cwd, [...SHOW_ARGS, commit.id]);
+    details.set(commit.id, { ...parseGitShow(show), parents: (commit.parents ?? []).map(sha => ({ sha })) });
+  }
+  return { commits, details };
+}
+
+/**
+ * Owner and name of a GitHub-style remote URL (https, ssh or scp-like), or null when it has no owner/repo path
+ */
+export function parseRemoteUrl(url: string): { owner: string; repo: string } | null {
+  const match = url.trim().match(/[/:]([^/:]+)\/([^/]+?)(?:\.git)?\/?$/);
+  return match ? { owner: match[1], repo: match[2] } : null;
+}
+
+/**
+ * Owner and name of the repository behind a remote of the local checkout
+ */
+export function resolveLocalRepository(cwd: string, remote = 'origin'): { owner: string; repo: string } {
+  const url = git(cwd, ['remote', 'get-url', remote]);
+  const repository = parseRemoteUrl(url);
+  if (!repository) {
+    throw new Error(`Cannot tell the repository from remote "${remote}" (${url.trim()}) - use --repository owner/repo`);
+  }
+  return repository;
+}
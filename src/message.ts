@@ -0,0 +1,124 @@
+export interface CommitTrailer {
+  key: string;
+  value: string;
+}
+
+export interface CoAuthor {
+  name: string;
+  email?: string;
+}
+
+export interface IssueReference {
+  // "owner/repo" for cross-repository references, null for this repository
+  repo: string | null;
+  number: number;
+  action: 'closes' | 'references';
+}
+
+/**
+ * Structured view of a commit message; `type` and `scope` are null when the header is not a Conventional Commit
+ */
+export interface ParsedMessage {
+  type: string | null;
+  scope: string | null;
+  subject: string;
+  body: string | null;
+  breaking: boolean;
+  trailers: CommitTrailer[];
+  co_authors: CoAuthor[];
+  issues: IssueReference[];
+}
+
+const HEADER = /^([A-Za-z][\w-]*)(?:\(([^()\r\n]*)\))?(!)?:\s+(.+)$/;
+// Git trailers use "Key: value"; Conventional Commits also allows "Key #value" and the spaced BREAKING CHANGE token
+const TRAILER = /^(BREAKING CHANGE|[A-Za-z][\w-]*)(?::\s*|\s+#)(.*)$/;
+const CLOSING_KEYWORD = /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\b:?\s+((?:[\w.-]+\/[\w.-]+)?#\d+(?:\s*,\s*(?:[\w.-]+\/[\w.-]+)?#\d+)*)/gi;
+const ISSUE = /(?:([\w.-]+\/[\w.-]+))?#(\d+)/g;
+const REFERENCE_TRAILERS = ['refs', 'ref', 'references', 'related', 'see', 'issue', 'issues'];
+
+function parseTrailers(paragraph: string): CommitTrailer[] | null {
+  const trailers: CommitTrailer[] = [];
+
+  for (const line of paragraph.split('\n')) {
+    const continuation = /^\s/.test(line) && trailers.length > 0;
+    if (continuation) {
+      trailers[trailers.length - 1].value += ` ${line.trim()}`;
+      continue;
+    }
+
+    const match = TRAILER.exec(line);
+    if (!match) return null;
+    // "Key #value" keeps the hash so "Fixes #123" round-trips as an issue reference
+    const value = line.charAt(match[1].length) === ':' ? match[2].trim() : `#${match[2].trim()}`;
+    trailers.push({ key: match[1], value });
+  }
+
+  return trailers;
+}
+
+function parseCoAuthor(value: string): CoAuthor {
+  const match = /^(.*?)\s*<([^<>]*)>\s*$/.exec(value);
+  if (!match) return { name: value.trim() };
+  return { name: match[1].trim() || match[2].trim(), ...(match[2].trim() && { email: match[2].trim() }) };
+}
+
+function collectIssues(text: string, action: IssueReference['action'], into: Map<string, IssueReference>): void {
+  for (const [, repo, number] of text.matchAll(ISSUE)) {
+    const key = `${repo?.toLowerCase() ?? ''}#${number}`;
+    // A closing reference wins over a plain mention of the same issue
+    if (!into.has(key) || action === 'closes') {
+      into.set(key, { repo: repo ?? null, number: Number(number), action });
+    }
+  }
+}
+
+/**
+ * Split a commit message into Conventional Commit fields and git trailers.
+ * Never throws: anything that does not parse is kept as the subject and body.
+ */
+export function parseCommitMessage(message: string): ParsedMessage {
+  const normalized = message.replace(/\r\n?/g, '\n').trim();
+  const [header = '', ...rest] = normalized.split('\n');
+  const paragraphs = rest
+    .join('\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/^\n+|\s+$/g, ''))
+    .filter(paragraph => paragraph.trim());
+
+  const trailers = paragraphs.length > 0 ? parseTrailers(paragraphs[paragraphs.length - 1]) : null;
+  if (trailers) {
+    paragraphs.pop();
+  }
+
+  const headerMatch = HEADER.exec(header.trim());
+  const breakingTrailer = trailers?.some(t => /^BREAKING[ -]CHANGE$/i.test(t.key)) ?? false;
+
+  const coAuthors = new Map<string, CoAuthor>();
+  for (const trailer of trailers ?? []) {
+    if (trailer.key.toLowerCase() !== 'co-authored-by') continue;
+    const coAuthor = parseCoAuthor(trailer.value);
+    const key = (coAuthor.email ?? coAuthor.name).toLowerCase();
+    if (coAuthor.name && !coAuthors.has(key)) coAuthors.set(key, coAuthor);
+  }
+
+  const issues = new Map<string, IssueReference>();
+  for (const trailer of trailers ?? []) {
+    if (REFERENCE_TRAILERS.includes(trailer.key.toLowerCase())) {
+      collectIssues(trailer.value, 'references', issues);
+    }
+  }
+  for (const [, refs] of normalized.matchAll(CLOSING_KEYWORD)) {
+    collectIssues(refs, 'closes', issues);
+  }
+
+  return {
+    type: headerMatch ? headerMatch[1].toLowerCase() : null,
+    scope: headerMatch?.[2]?.trim() || null,
+    subject: headerMatch ? headerMatch[4].trim() : header.trim(),
+    body: paragraphs.join('\n\n').trim() || null,
+    breaking: Boolean(headerMatch?.[3]) || breakingTrailer,
+    trailers: trailers ?? [],
+    co_authors: [...coAuthors.values()],
+    issues: [...issues.values()]
+  };
+}
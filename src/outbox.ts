@@ -0,0 +1,159 @@
+import * as core from '@actions/core';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, readdirSync, unlinkSync, writeFileSync } from 'fs';
+import { basename, join, resolve } from 'path';
+import { getInput } from './config';
+import { acceptedBeforeFailure } from './response';
+import { Commit } from './types';
+
+export const DEFAULT_OUTBOX_DIR = '.shiploud/outbox';
+export const DEFAULT_OUTBOX_MAX_AGE_HOURS = 168;
+
+export interface OutboxOptions {
+  dir: string;
+  maxAgeMs: number;
+  // Only deliver pending entries; do not export the triggering event
+  flushOnly: boolean;
+}
+
+export type OutboxPayload = { commits: Commit[] } & Record<string, unknown>;
+
+/**
+ * One undelivered request body, stored unsigned so it is signed with a fresh timestamp when resent
+ */
+export interface OutboxEntry {
+  version: 1;
+  created_at: string;
+  attempts: number;
+  last_error: string;
+  payload: OutboxPayload;
+}
+
+export interface OutboxFlushResult {
+  delivered: string[];
+  accepted: number;
+  pending: number;
+}
+
+/**
+ * Read outbox options from action inputs
+ */
+export function getOutboxOptions(): OutboxOptions {
+  const maxAge = getInput('outbox-max-age').trim();
+  const hours = maxAge ? Number(maxAge) : DEFAULT_OUTBOX_MAX_AGE_HOURS;
+  if (!Number.isFinite(hours) || hours <= 0) {
+    throw new Error(`Invalid outbox-max-age "${maxAge}" - expected a positive number of hours`);
+  }
+
+  return {
+    dir: resolve(getInput('outbox-dir').trim() || DEFAULT_OUTBOX_DIR),
+    maxAgeMs: hours * 60 * 60 * 1000,
+    flushOnly: getInput('outbox-only').trim().toLowerCase() === 'true'
+  };
+}
+
+/**
+ * Pending entries, oldest first; unreadable files are reported and left in place
+ */
+export function loadOutbox(dir: string): Array<{ file: string; entry: OutboxEntry }> {
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .filter(name => name.endsWith('.json'))
+    .sort()
+    .flatMap(name => {
+      const file = join(dir, name);
+      try {
+        const entry = JSON.parse(readFileSync(file, 'utf8')) as OutboxEntry;
+        if (entry.version !== 1 || !Array.isArray(entry.payload?.commits)) {
+          throw new Error('unrecognized entry format');
+        }
+        return [{ file, entry }];
+      } catch (error) {
+        core.warning(`Ignoring unreadable outbox entry ${name}: ${error instanceof Error ? error.message : error}`);
+        return [];
+      }
+    });
+}
+
+/**
+ * Persist an undelivered payload, leaving out commits another pending entry already holds.
+ * Returns the entry file, or null when every commit was already pending.
+ */
+export function saveToOutbox(dir: string, payload: OutboxPayload, error: string): string | null {
+  const existing = loadOutbox(dir);
+  const pending = new Set(existing.flatMap(({ entry }) => entry.payload.commits.map(commit => commit.id)));
+  const commits = payload.commits.filter(commit => !pending.has(commit.id));
+  if (commits.length === 0) return null;
+
+  const entry: OutboxEntry = {
+    version: 1,
+    created_at: new Date().toISOString(),
+    attempts: 1,
+    last_error: error,
+    payload: { ...payload, commits }
+  };
+  const digest = createHash('sha256')
+    .update(commits.map(commit => commit.id).join(','))
+    .digest('hex')
+    .slice(0, 12);
+  // Zero-padded, strictly increasing timestamps keep file names in creation order
+  const latest = Math.max(0, ...existing.map(({ file }) => parseInt(basename(file), 10) || 0));
+  const stamp = Math.max(Date.now(), latest + 1);
+  const file = join(dir, `${String(stamp).padStart(15, '0')}-${digest}.json`);
+
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(file, JSON.stringify(entry, null, 2));
+  core.warning(`📥 Saved ${commits.length} undelivered commits to the outbox: ${file}`);
+  return file;
+}
+
+/**
+ * Resend pending entries oldest first. Expired entries are dropped, commits already delivered by an
+ * earlier entry are not sent twice, and flushing stops at the first failure (the API is likely still down).
+ */
+export async function flushOutbox(
+  options: OutboxOptions,
+  send: (payload: OutboxPayload) => Promise<number | void>,
+  now = Date.now()
+): Promise<OutboxFlushResult> {
+  const entries = loadOutbox(options.dir);
+  const result: OutboxFlushResult = { delivered: [], accepted: 0, pending: 0 };
+  if (entries.length === 0) return result;
+
+  core.info(`📤 Flushing ${entries.length} pending outbox entries from ${options.dir}`);
+  const delivered = new Set<string>();
+
+  for (const [i, { file, entry }] of entries.entries()) {
+    const ageMs = now - Date.parse(entry.created_at);
+    if (!(ageMs <= options.maxAgeMs)) {
+      core.warning(
+        `🗑️ Dropping outbox entry ${file} (${entry.payload.commits.length} commits) - ` +
+          `older than ${Math.round(options.maxAgeMs / 3_600_000)}h`
+      );
+      unlinkSync(file);
+      continue;
+    }
+
+    const commits = entry.payload.commits.filter(commit => !delivered.has(commit.id));
+    if (commits.length > 0) {
+      try {
+        const accepted = await send({ ...entry.payload, commits });
+        result.accepted += typeof accepted === 'number' ? accepted : commits.length;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        result.accepted += acceptedBeforeFailure(error);
+        writeFileSync(file, JSON.stringify({ ...entry, attempts: entry.attempts + 1, last_error: message }, null, 2));
+        result.pending = entries.length - i;
+        core.warning(`⚠️ Outbox flush stopped, ${result.pending} entries remain pending: ${message}`);
+        break;
+      }
+      commits.forEach(commit => delivered.add(commit.id));
+    }
+    unlinkSync(file);
+  }
+
+  result.delivered = [...delivered];
+  core.info(`📤 Outbox: delivered ${result.delivered.length} commits, ${result.pending} entries pending`);
+  return result;
+}
@@ -0,0 +1,163 @@
+import schema from './payload.schema.json';
+import { BackfillPayload } from './backfill';
+import { BatchEnvelope } from './batch';
+import { PullRequestMetadata } from './pull-request';
+import { PushMetadata } from './push';
+import { ReleaseMetadata } from './release';
+import { Commit } from './types';
+
+// Bump together with `schema_version` in payload.schema.json whenever the payload shape changes
+export const SCHEMA_VERSION = '1.3';
+
+// Published JSON Schema for ingest payloads (src/payload.schema.json)
+export const PAYLOAD_SCHEMA: JsonSchema = schema as JsonSchema;
+
+/**
+ * Body of every request sent to the shiploud.so ingest API
+ */
+export type IngestPayload = {
+  schema_version: typeof SCHEMA_VERSION;
+  repo: string;
+  owner: string;
+  commits: Commit[];
+  type?: 'release';
+  pull_request?: PullRequestMetadata;
+  release?: ReleaseMetadata;
+  backfill?: BackfillPayload['backfill'];
+  push?: PushMetadata;
+  // Set when branch-policy marks the branch as draft
+  draft?: boolean;
+  batch?: BatchEnvelope;
+};
+
+/**
+ * The JSON Schema keywords payload.schema.json uses; validatePayload() understands exactly these and throws on others
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  const?: unknown;
+  enum?: unknown[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minimum?: number;
+  minLength?: number;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+}
+
+// Keywords check() implements, plus annotations that do not affect validation
+const SUPPORTED_KEYWORDS = new Set([
+  'type',
+  'const',
+  'enum',
+  'required',
+  'properties',
+  'additionalProperties',
+  'items',
+  'minimum',
+  'minLength',
+  '$ref',
+  '$defs',
+  '$schema',
+  '$id',
+  'title',
+  'description'
+]);
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function check(value: unknown, node: JsonSchema, path: string, errors: string[]): void {
+  // A keyword this validator skips would let payloads through that the schema rejects
+  const unsupported = Object.keys(node).find(keyword => !SUPPORTED_KEYWORDS.has(keyword));
+  if (unsupported) throw new Error(`Unsupported schema keyword "${unsupported}" at ${path}`);
+
+  if (node.$ref) {
+    const name = node.$ref.replace('#/$defs/', '');
+    const target = PAYLOAD_SCHEMA.$defs?.[name];
+    if (!target) throw new Error(`Unknown schema reference "${node.$ref}"`);
+    check(value, target, path, errors);
+    return;
+  }
+
+  const actual = typeOf(value);
+  if (node.const !== undefined && value !== node.const) {
+    errors.push(`${path} must be ${JSON.stringify(node.const)}`);
+    return;
+  }
+  if (node.enum && !node.enum.includes(value)) {
+    errors.push(`${path} must be one of ${node.enum.map(v => JSON.stringify(v)).join(', ')}`);
+    return;
+  }
+  if (node.type) {
+    const types = Array.isArray(node.type) ? node.type : [node.type];
+    const matches = types.some(type => type === actual || (type === 'number' && actual === 'integer'));
+    if (!matches) {
+      errors.push(`${path} must be ${types.join(' or ')}, got ${actual}`);
+      return;
+    }
+  }
+
+  if (typeof value === 'number' && node.minimum !== undefined && value < node.minimum) {
+    errors.push(`${path} must be at least ${node.minimum}`);
+  }
+  if (typeof value === 'string' && node.minLength !== undefined && value.length < node.minLength) {
+    errors.push(`${path} must not be empty`);
+  }
+  if (Array.isArray(value) && node.items) {
+    value.forEach((item, i) => check(item, node.items as JsonSchema, `${path}[${i}]`, errors));
+  }
+  if (actual === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of node.required ?? []) {
+      if (object[key] === undefined) errors.push(`${path}.${key} is required`);
+    }
+    for (const [key, property] of Object.entries(object)) {
+      // JSON.stringify drops undefined properties, so they never reach the API
+      if (property === undefined) continue;
+      const child = node.properties?.[key] ?? node.additionalProperties;
+      if (child === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      } else if (child && child !== true) {
+        check(property, child, `${path}.${key}`, errors);
+      }
+    }
+  }
+}
+
+/**
+ * Check a payload against the published schema; returns one message per violation
+ */
+export function validatePayload(payload: unknown): string[] {
+  const errors: string[] = [];
+  check(payload, PAYLOAD_SCHEMA, 'payload', errors);
+  return errors;
+}
+
+/**
+ * Stamp the current schema version on a batch and make sure it matches the schema before it is signed.
+ * A version stored with an older outbox entry is replaced, since the body is rebuilt by this release.
+ * Throws on a malformed payload so it is never sent, stored in the outbox or fanned out.
+ */
+export function toIngestPayload(batch: { commits: Commit[] } & Record<string, unknown>): IngestPayload {
+  const payload = { ...batch, schema_version: SCHEMA_VERSION };
+  assertValidPayload(payload);
+  return payload;
+}
+
+/**
+ * Throw when a payload does not match the published schema, listing the first violations
+ */
+export function assertValidPayload(payload: unknown): asserts payload is IngestPayload {
+  const errors = validatePayload(payload);
+  if (errors.length > 0) {
+    const more = errors.length > 5 ? ` (and ${errors.length - 5} more)` : '';
+    throw new Error(`Invalid ingest payload: ${errors.slice(0, 5).join('; ')}${more}`);
+  }
+}
@@ -0,0 +1,205 @@
+import * as core from '@actions/core';
+import { createHash } from 'crypto';
+import { getInput } from './config';
+import { getListInput, matchesAnyGlob } from './glob';
+import { Commit, FileChange } from './types';
+
+export type EmailMode = 'keep' | 'hash' | 'drop';
+
+export const MASKED_PATH = '[masked]';
+export const REDACTED = '[REDACTED]';
+
+export interface RedactionPattern {
+  name: string;
+  pattern: RegExp;
+}
+
+/**
+ * Common credential formats that must never leave the runner
+ */
+export const BUILTIN_REDACTION_PATTERNS: RedactionPattern[] = [
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    name: 'aws-secret-key',
+    pattern: /\baws_secret_access_key\b\s*[:=]\s*['"]?[A-Za-z0-9/+=]{40}['"]?/gi
+  },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  { name: 'slack-token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g },
+  { name: 'private-key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g }
+];
+
+export interface PrivacyOptions {
+  emailMode: EmailMode;
+  excludePaths: string[];
+  maskPaths: string[];
+  redactionPatterns: RedactionPattern[];
+}
+
+/**
+ * What was changed, for logging; never contains the redacted values themselves
+ */
+export interface PrivacyReport {
+  emails: number;
+  excludedPaths: number;
+  maskedPaths: number;
+  redactions: Record<string, number>;
+}
+
+/**
+ * Read privacy options from action inputs
+ */
+export function getPrivacyOptions(): PrivacyOptions {
+  const emailMode = (getInput('author-email').trim().toLowerCase() || 'keep') as EmailMode;
+  if (!['keep', 'hash', 'drop'].includes(emailMode)) {
+    throw new Error(`Invalid author-email "${emailMode}" - expected keep, hash or drop`);
+  }
+
+  const customPatterns = getListInput('redact-patterns', /\n/).map((source, i) => {
+    try {
+      return { name: `custom-${i + 1}`, pattern: new RegExp(source, 'g') };
+    } catch (error) {
+      throw new Error(`Invalid redact-patterns entry "${source}": ${error instanceof Error ? error.message : error}`);
+    }
+  });
+  const builtinEnabled = getInput('redact-secrets').trim().toLowerCase() !== 'false';
+
+  return {
+    emailMode,
+    excludePaths: getListInput('exclude-paths'),
+    maskPaths: getListInput('mask-paths'),
+    redactionPatterns: [...(builtinEnabled ? BUILTIN_REDACTION_PATTERNS : []), ...customPatterns]
+  };
+}
+
+export function createPrivacyReport(): PrivacyReport {
+  return { emails: 0, excludedPaths: 0, maskedPaths: 0, redactions: {} };
+}
+
+export function hashEmail(email: string): string {
+  return createHash('sha256').update(email.trim().toLowerCase(), 'utf8').digest('hex');
+}
+
+/**
+ * Replace every match of the redaction patterns, counting matches per pattern
+ */
+export function redactText(text: string, patterns: RedactionPattern[], report: PrivacyReport): string {
+  return patterns.reduce((result, { name, pattern }) => {
+    return result.replace(new RegExp(pattern.source, pattern.flags), () => {
+      report.redactions[name] = (report.redactions[name] ?? 0) + 1;
+      return REDACTED;
+    });
+  }, text);
+}
+
+function transformMessageEmails(message: string, mode: EmailMode, report: PrivacyReport): string {
+  // Trailers such as Co-authored-by / Signed-off-by carry "Name <email>"
+  return message.replace(/\s*<([^<>\s@]+@[^<>\s]+)>/g, (match, email: string) => {
+    report.emails++;
+    return mode === 'hash' ? match.replace(email, hashEmail(email)) : '';
+  });
+}
+
+function filterPaths(paths: string[], options: PrivacyOptions, report: PrivacyReport): string[] {
+  return paths.flatMap(path => {
+    if (matchesAnyGlob(path, options.excludePaths)) {
+      report.excludedPaths++;
+      return [];
+    }
+    if (matchesAnyGlob(path, options.maskPaths)) {
+      report.maskedPaths++;
+      return [MASKED_PATH];
+    }
+    return [path];
+  });
+}
+
+// The three filename lists already count added, modified and removed files
+const LISTED_STATUSES = ['added', 'modified', 'removed'];
+
+function filterChanges(changes: FileChange[], options: PrivacyOptions, report: PrivacyReport): FileChange[] {
+  const mask = (path: string) =>
+    matchesAnyGlob(path, options.excludePaths) || matchesAnyGlob(path, options.maskPaths) ? MASKED_PATH : path;
+
+  return changes.flatMap(change => {
+    const counted = LISTED_STATUSES.includes(change.status);
+    if (matchesAnyGlob(change.filename, options.excludePaths)) {
+      if (!counted) report.excludedPaths++;
+      return [];
+    }
+    const filename = mask(change.filename);
+    if (filename === MASKED_PATH && !counted) report.maskedPaths++;
+    return [
+      {
+        ...change,
+        filename,
+        // A rename must not reveal where an excluded or masked file came from
+        ...(change.previous_filename && { previous_filename: mask(change.previous_filename) })
+      }
+    ];
+  });
+}
+
+/**
+ * Keep, hash or drop an email address according to the author-email input
+ */
+export function protectEmail(
+  email: string | undefined,
+  options: PrivacyOptions,
+  report: PrivacyReport
+): string | undefined {
+  if (options.emailMode === 'keep' || !email) {
+    return email;
+  }
+  report.emails++;
+  return options.emailMode === 'hash' ? hashEmail(email) : undefined;
+}
+
+/**
+ * Apply email handling, path exclusion/masking and message redaction to a commit.
+ * `total_changes` keeps counting excluded files so the numbers stay honest.
+ */
+export function applyPrivacy(commit: Commit, options: PrivacyOptions, report: PrivacyReport): Commit {
+  let message = redactText(commit.message, options.redactionPatterns, report);
+  const author: Commit['author'] = { name: commit.author.name };
+
+  if (options.emailMode !== 'keep') {
+    message = transformMessageEmails(message, options.emailMode, report);
+  }
+  const email = protectEmail(commit.author.email, options, report);
+  if (email !== undefined) {
+    author.email = email;
+  }
+
+  return {
+    ...commit,
+    message,
+    author,
+    files: {
+      ...commit.files,
+      added: filterPaths(commit.files.added, options, report),
+      modified: filterPaths(commit.files.modified, options, report),
+      removed: filterPaths(commit.files.removed, options, report),
+      ...(commit.files.changes && { changes: filterChanges(commit.files.changes, options, report) })
+    }
+  };
+}
+
+/**
+ * Log what the privacy controls changed without printing any of the original values
+ */
+export function logPrivacyReport(report: PrivacyReport): void {
+  const redactionCount = Object.values(report.redactions).reduce((sum, n) => sum + n, 0);
+  if (redactionCount > 0) {
+    const byPattern = Object.entries(report.redactions)
+      .map(([name, count]) => `${name}: ${count}`)
+      .join(', ');
+    core.warning(`🔒 Redacted ${redactionCount} secret(s) from commit data (${byPattern})`);
+  }
+  if (report.emails > 0) {
+    core.info(`🔒 Processed ${report.emails} email address(es)`);
+  }
+  if (report.excludedPaths > 0 || report.maskedPaths > 0) {
+    core.info(`🔒 Excluded ${report.excludedPaths} and masked ${report.maskedPaths} file path(s)`);
+  }
+}
@@ -0,0 +1,77 @@
+import * as core from '@actions/core';
+import { fromApiCommit } from './commits';
+import { Octokit, RawCommit } from './types';
+
+export interface PullRequestMetadata {
+  number: number;
+  title: string;
+  body: string | null;
+  url: string;
+  labels: string[];
+  base_ref: string;
+  head_ref: string;
+  merge_commit_sha: string | null;
+}
+
+/**
+ * The fields of a webhook pull request the export reads
+ */
+export interface PullRequestPayload {
+  number: number;
+  title: string;
+  body?: string | null;
+  html_url: string;
+  labels?: Array<string | { name: string }>;
+  base: { ref: string };
+  head: { ref: string };
+  merged?: boolean | null;
+  merge_commit_sha?: string | null;
+}
+
+/**
+ * Only merged pull requests represent shipped work; opened/synchronized/closed-unmerged are ignored
+ */
+export function isMergedPullRequest(payload: {
+  action?: string;
+  pull_request?: Pick<PullRequestPayload, 'number' | 'merged'>;
+}): boolean {
+  return payload?.action === 'closed' && payload?.pull_request?.merged === true;
+}
+
+/**
+ * Extract the PR context that is sent alongside the commits
+ */
+export function toPullRequestMetadata(pullRequest: PullRequestPayload): PullRequestMetadata {
+  return {
+    number: pullRequest.number,
+    title: pullRequest.title,
+    body: pullRequest.body ?? null,
+    url: pullRequest.html_url,
+    labels: (pullRequest.labels || []).map(label => (typeof label === 'string' ? label : label.name)),
+    base_ref: pullRequest.base?.ref,
+    head_ref: pullRequest.head?.ref,
+    merge_commit_sha: pullRequest.merge_commit_sha ?? null
+  };
+}
+
+/**
+ * Page through every commit of a pull request and normalize them to the push payload shape.
+ * Note: GitHub caps this endpoint at 250 commits per pull request.
+ */
+export async function listPullRequestCommits(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<RawCommit[]> {
+  core.info(`📡 Fetching commits for pull request #${pullNumber} via GitHub API`);
+
+  const commits = await octokit.paginate(octokit.rest.pulls.listCommits, {
+    owner,
+    repo,
+    pull_number: pullNumber,
+    per_page: 100
+  });
+
+  return commits.map(fromApiCommit);
+}
@@ -0,0 +1,170 @@
+import * as core from '@actions/core';
+import { compareRange } from './commits';
+import { CommitDetails } from './enrich';
+import { compareUrl, workflowRunUrl } from './server';
+import { Octokit, RawCommit } from './types';
+
+export const ZERO_SHA = '0000000000000000000000000000000000000000';
+
+// GitHub truncates payload.commits to this many entries
+const PUSH_PAYLOAD_COMMIT_LIMIT = 20;
+
+// The compare API lists at most this many files for a range
+const COMPARE_FILE_LIMIT = 300;
+
+export interface PushCommits {
+  commits: RawCommit[];
+  // File data already returned by the compare call, keyed by SHA, so getCommit can be skipped
+  prefetched: Map<string, CommitDetails>;
+}
+
+/**
+ * The fields of a push event payload the export reads
+ */
+export interface PushPayload {
+  ref?: string;
+  base_ref?: string | null;
+  before?: string;
+  after?: string;
+  created?: boolean;
+  deleted?: boolean;
+  forced?: boolean;
+  commits?: RawCommit[];
+  pusher?: { name?: string; email?: string | null };
+  repository?: { name?: string; default_branch?: string };
+}
+
+/**
+ * What happened to the ref in a push event, and which workflow run exported it
+ */
+export interface PushMetadata {
+  ref: string;
+  branch: string;
+  // Branch a pushed tag points into, when GitHub reports it
+  base_ref: string | null;
+  // null for created and deleted refs respectively
+  before: string | null;
+  after: string | null;
+  created: boolean;
+  deleted: boolean;
+  forced: boolean;
+  // email is hashed or omitted when the author-email input asks for it
+  pusher: { name: string; email?: string } | null;
+  compare_url: string | null;
+  workflow_run: { id: number; url: string } | null;
+}
+
+function isZeroSha(sha: string | undefined): boolean {
+  return !sha || sha === ZERO_SHA;
+}
+
+/**
+ * A push that deleted its branch has no commits to export
+ */
+export function isDeletedRef(payload: PushPayload): boolean {
+  return payload?.deleted === true || (payload?.after !== undefined && isZeroSha(payload.after));
+}
+
+function fromPayload(payload: PushPayload): PushCommits {
+  const commits: RawCommit[] = payload.commits || [];
+  if (commits.length >= PUSH_PAYLOAD_COMMIT_LIMIT) {
+    core.warning(
+      `Push payload lists ${commits.length} commits, which is GitHub's cap - older commits of this push may be missing`
+    );
+  }
+  return { commits, prefetched: new Map() };
+}
+
+/**
+ * Resolve every commit of a push from `before`/`after` via the compare API instead of trusting
+ * the (truncated) payload. New branches are compared against the default branch; when the range
+ * cannot be compared (e.g. a force-push whose old head is gone) the payload commits are used.
+ */
+export async function resolvePushCommits(
+  octokit: Octokit | null,
+  owner: string,
+  repo: string,
+  payload: PushPayload
+): Promise<PushCommits> {
+  const { after } = payload;
+  if (!octokit || !after || isZeroSha(after)) {
+    return fromPayload(payload);
+  }
+
+  let base = payload.before ?? ZERO_SHA;
+  if (isZeroSha(base)) {
+    const branch = String(payload.ref ?? '').replace('refs/heads/', '');
+    const defaultBranch: string | undefined = payload.repository?.default_branch;
+
+    if (!defaultBranch || defaultBranch === branch) {
+      core.info('New branch without a comparable base - using push payload commits');
+      return fromPayload(payload);
+    }
+
+    core.info(`New branch "${branch}" - exporting commits not on default branch "${defaultBranch}"`);
+    base = defaultBranch;
+  }
+
+  let range;
+  try {
+    range = await compareRange(octokit, owner, repo, base, after);
+  } catch (error) {
+    core.warning(
+      `Could not compare ${base.substring(0, 7)}...${after.substring(0, 7)}` +
+        `${payload.forced ? ' (force-push, old head may be unreachable)' : ''}: ${error}`
+    );
+    core.warning('Falling back to push payload commits');
+    return fromPayload(payload);
+  }
+
+  if (payload.forced) {
+    core.info(`Force-push detected - exporting ${range.commits.length} commits not reachable from the old head`);
+  }
+
+  // For single-commit ranges the compare files are exactly that commit's files
+  const prefetched = new Map<string, CommitDetails>();
+  if (range.commits.length === 1 && range.files.length < COMPARE_FILE_LIMIT) {
+    prefetched.set(range.commits[0].id, {
+      files: range.files,
+      stats: {
+        additions: range.files.reduce((sum, file) => sum + file.additions, 0),
+        deletions: range.files.reduce((sum, file) => sum + file.deletions, 0)
+      }
+    });
+  }
+
+  return { commits: range.commits, prefetched };
+}
+
+/**
+ * Describe a push from its event payload. New branches are compared against the default branch, like
+ * resolvePushCommits() does; deleted refs have no compare link.
+ */
+export function toPushMetadata(
+  payload: PushPayload & { ref: string },
+  branch: string,
+  serverUrl: string,
+  owner: string,
+  repo: string,
+  runId?: number
+): PushMetadata {
+  const before = isZeroSha(payload.before) ? null : (payload.before ?? null);
+  const after = isZeroSha(payload.after) ? null : (payload.after ?? null);
+  const base = before ?? payload.repository?.default_branch;
+
+  return {
+    ref: payload.ref,
+    branch,
+    base_ref: payload.base_ref ?? null,
+    before,
+    after,
+    created: payload.created === true || (!before && !!after),
+    deleted: isDeletedRef(payload),
+    forced: payload.forced === true,
+    pusher: payload.pusher?.name
+      ? { name: payload.pusher.name, ...(payload.pusher.email && { email: payload.pusher.email }) }
+      : null,
+    compare_url: base && after && base !== branch ? compareUrl(serverUrl, owner, repo, base, after) : null,
+    workflow_run: runId ? { id: runId, url: workflowRunUrl(serverUrl, owner, repo, runId) } : null
+  };
+}
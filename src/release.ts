@@ -0,0 +1,150 @@
+import * as core from '@actions/core';
+import { listCommitsBetween, listCommitsUpTo } from './commits';
+import { Octokit, RawCommit } from './types';
+
+// First releases have no lower bound; cap the history we walk back through
+const MAX_INITIAL_RELEASE_COMMITS = 250;
+
+// Ancestry is checked for at most this many candidates before falling back to a first-release export
+const MAX_PREVIOUS_TAG_CHECKS = 10;
+
+const SEMVER_TAG = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+export interface ReleaseMetadata {
+  tag_name: string;
+  previous_tag: string | null;
+  name: string | null;
+  body: string | null;
+  prerelease: boolean;
+  url: string | null;
+}
+
+/**
+ * The fields of a webhook release the export reads
+ */
+export interface ReleasePayload {
+  tag_name?: string;
+  name?: string | null;
+  body?: string | null;
+  prerelease?: boolean;
+  html_url?: string;
+  target_commitish?: string;
+}
+
+/**
+ * Only published releases are exported; drafts and edits would produce duplicate stories
+ */
+export function isPublishedRelease(payload: { action?: string; release?: ReleasePayload }): boolean {
+  return payload?.action === 'published' && !!payload?.release?.tag_name;
+}
+
+/**
+ * Build release metadata from a release event payload, or from the bare tag name for tag pushes
+ */
+export function toReleaseMetadata(
+  release: ReleasePayload | undefined,
+  tagName: string,
+  previousTag: string | null
+): ReleaseMetadata {
+  return {
+    tag_name: tagName,
+    previous_tag: previousTag,
+    name: release?.name || null,
+    body: release?.body ?? null,
+    prerelease: release?.prerelease === true,
+    url: release?.html_url ?? null
+  };
+}
+
+function comparePrerelease(a: string | undefined, b: string | undefined): number {
+  // A final version sorts after all of its prereleases
+  if (a === undefined || b === undefined) return a === b ? 0 : a === undefined ? 1 : -1;
+  const left = a.split('.');
+  const right = b.split('.');
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    if (left[i] === undefined || right[i] === undefined) return left[i] === undefined ? -1 : 1;
+    const leftNumeric = /^\d+$/.test(left[i]);
+    const rightNumeric = /^\d+$/.test(right[i]);
+    // Numeric identifiers compare as numbers and sort before alphanumeric ones
+    let order: number;
+    if (leftNumeric && rightNumeric) {
+      order = Number(left[i]) - Number(right[i]);
+    } else if (leftNumeric !== rightNumeric) {
+      order = leftNumeric ? -1 : 1;
+    } else {
+      order = left[i].localeCompare(right[i]);
+    }
+    if (order !== 0) return order;
+  }
+  return 0;
+}
+
+/**
+ * Compare tag names by semantic version when both are versions (v1.0.0-rc.1 < v1.0.0 < v1.0.1), and
+ * otherwise so that numeric segments sort naturally (v1.10.0 > v1.9.0)
+ */
+export function compareTagNames(a: string, b: string): number {
+  const left = a.match(SEMVER_TAG);
+  const right = b.match(SEMVER_TAG);
+  if (!left || !right) {
+    return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+  }
+  for (let i = 1; i <= 3; i++) {
+    const order = Number(left[i]) - Number(right[i]);
+    if (order !== 0) return order;
+  }
+  return comparePrerelease(left[4], right[4]);
+}
+
+/**
+ * Find the tag that immediately precedes `tagName` and is an ancestor of it, or null when there is none.
+ * Tags on other branches (a hotfix line, an abandoned release candidate) are passed over.
+ */
+export async function findPreviousTag(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  tagName: string
+): Promise<string | null> {
+  const tags = await octokit.paginate(octokit.rest.repos.listTags, { owner, repo, per_page: 100 });
+
+  const candidates = tags
+    .map(tag => tag.name)
+    .filter(name => name !== tagName && compareTagNames(name, tagName) < 0)
+    .sort((a, b) => compareTagNames(b, a))
+    .slice(0, MAX_PREVIOUS_TAG_CHECKS);
+
+  for (const candidate of candidates) {
+    const { data } = await octokit.rest.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${candidate}...${tagName}`,
+      per_page: 1
+    });
+    // "ahead" means the candidate is reachable from the release; identical tags would export nothing
+    if (data.status === 'ahead') {
+      return candidate;
+    }
+    core.info(`🏷️ ${candidate} is not an ancestor of ${tagName} (${data.status}) - skipping it`);
+  }
+  return null;
+}
+
+/**
+ * Gather the commits that went into a tag: everything since the previous tag, or recent history for a first release
+ */
+export async function listReleaseCommits(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  tagName: string,
+  previousTag: string | null
+): Promise<RawCommit[]> {
+  if (previousTag) {
+    core.info(`🏷️ Collecting commits between ${previousTag} and ${tagName}`);
+    return listCommitsBetween(octokit, owner, repo, previousTag, tagName);
+  }
+
+  core.info(`🏷️ No previous tag found - collecting up to ${MAX_INITIAL_RELEASE_COMMITS} commits for ${tagName}`);
+  return listCommitsUpTo(octokit, owner, repo, tagName, MAX_INITIAL_RELEASE_COMMITS);
+}
@@ -0,0 +1,210 @@
+import * as core from '@actions/core';
+import { createHash } from 'crypto';
+import { DestinationResult } from './destinations';
+import { escapeCell } from './dry-run';
+import { SkippedCommit } from './filters';
+import { ResendResult } from './response';
+import { Commit } from './types';
+
+export type DeliveryStatus = 'delivered' | 'duplicate' | 'rejected' | 'failed' | 'dry run';
+
+export interface ReportedCommit {
+  commit: Commit;
+  status: DeliveryStatus;
+  reason?: string;
+}
+
+/**
+ * Everything a run published, for step outputs and the job summary
+ */
+export interface RunReport {
+  commits: ReportedCommit[];
+  skipped: SkippedCommit[];
+  bodies: string[];
+  apiIds: string[];
+  cardUrls: string[];
+  destinations: DestinationResult[];
+}
+
+export interface ApiReferences {
+  ids: string[];
+  urls: string[];
+}
+
+const ID_KEY = /^(?:id|ids|(?:story|card|post)_ids?)$/;
+const URL_KEY = /^(?:url|urls|\w+_urls?)$/;
+// Per-commit verdicts name commit SHAs, not API objects
+const RESULT_LIST_KEYS = ['accepted', 'rejected', 'duplicates'];
+
+export function createRunReport(): RunReport {
+  return { commits: [], skipped: [], bodies: [], apiIds: [], cardUrls: [], destinations: [] };
+}
+
+/**
+ * Collect ids and links from an ingest response without assuming its exact shape. The accepted, rejected
+ * and duplicates lists are skipped.
+ */
+export function extractApiReferences(responseText: string): ApiReferences {
+  const references: ApiReferences = { ids: [], urls: [] };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(responseText);
+  } catch {
+    return references;
+  }
+
+  const visit = (value: unknown, key: string, depth: number): void => {
+    if (Array.isArray(value)) {
+      value.forEach(item => visit(item, key, depth));
+    } else if (value && typeof value === 'object') {
+      if (depth < 3) {
+        Object.entries(value)
+          .filter(([childKey]) => !RESULT_LIST_KEYS.includes(childKey))
+          .forEach(([childKey, child]) => visit(child, childKey, depth + 1));
+      }
+    } else if (ID_KEY.test(key) && (typeof value === 'string' || typeof value === 'number')) {
+      references.ids.push(String(value));
+    } else if (URL_KEY.test(key) && typeof value === 'string' && /^https?:\/\//.test(value)) {
+      references.urls.push(value);
+    }
+  };
+  visit(parsed, '', 0);
+
+  return references;
+}
+
+/**
+ * Record a batch that was not answered per commit (dry run or failed delivery).
+ * The serialized batch is exactly the request body.
+ */
+export function recordBatch(report: RunReport, batch: { commits: Commit[] }, status: DeliveryStatus): void {
+  report.bodies.push(JSON.stringify(batch));
+  report.commits.push(...batch.commits.map(commit => ({ commit, status })));
+}
+
+/**
+ * Record a delivered batch with the API's verdict on each commit and any references in its responses.
+ * Commits a failed resend round left undelivered are recorded as failed.
+ */
+export function recordIngestResult(
+  report: RunReport,
+  batch: { commits: Commit[] },
+  result: ResendResult,
+  responseTexts: string[]
+): void {
+  report.bodies.push(JSON.stringify(batch));
+  const duplicates = new Set(result.duplicates);
+  const rejections = new Map(result.rejected.map(rejection => [rejection.id, rejection.reason]));
+  const undelivered = new Set(result.undelivered?.ids);
+
+  for (const commit of batch.commits) {
+    if (undelivered.has(commit.id)) {
+      report.commits.push({ commit, status: 'failed' });
+    } else if (rejections.has(commit.id)) {
+      report.commits.push({ commit, status: 'rejected', reason: rejections.get(commit.id) });
+    } else {
+      report.commits.push({ commit, status: duplicates.has(commit.id) ? 'duplicate' : 'delivered' });
+    }
+  }
+  for (const responseText of responseTexts) {
+    const { ids, urls } = extractApiReferences(responseText);
+    report.apiIds.push(...ids);
+    report.cardUrls.push(...urls);
+  }
+}
+
+export function rejectedCommits(report: RunReport): ReportedCommit[] {
+  return report.commits.filter(({ status }) => status === 'rejected');
+}
+
+/**
+ * SHA-256 of the request body, or of all batch bodies joined by newlines
+ */
+export function payloadDigest(report: RunReport): string {
+  if (report.bodies.length === 0) return '';
+  return createHash('sha256').update(report.bodies.join('\n'), 'utf8').digest('hex');
+}
+
+export function setReportOutputs(report: RunReport): void {
+  const exported = report.commits
+    .filter(({ status }) => status !== 'failed' && status !== 'rejected')
+    .map(({ commit }) => commit.id);
+  core.setOutput('exported-shas', JSON.stringify(exported));
+  core.setOutput('skipped', report.skipped.length);
+  core.setOutput('skipped-shas', JSON.stringify(report.skipped.map(({ id, reason }) => ({ sha: id, reason }))));
+  core.setOutput(
+    'rejected-shas',
+    JSON.stringify(rejectedCommits(report).map(({ commit, reason }) => ({ sha: commit.id, reason })))
+  );
+  core.setOutput('payload-sha256', payloadDigest(report));
+  core.setOutput('batches', report.bodies.length);
+  core.setOutput('api-ids', JSON.stringify(report.apiIds));
+  core.setOutput('card-urls', JSON.stringify(report.cardUrls));
+  core.setOutput('destinations', JSON.stringify(report.destinations));
+}
+
+/**
+ * Render every exported and skipped commit with its stats and delivery status in the job summary
+ */
+export async function writeRunSummary(report: RunReport): Promise<void> {
+  if (!process.env.GITHUB_STEP_SUMMARY) {
+    core.info('No job summary available - skipping run summary');
+    return;
+  }
+
+  const statusLabel: Record<DeliveryStatus, string> = {
+    delivered: '✅ delivered',
+    duplicate: '♻️ already ingested',
+    rejected: '🚫 rejected',
+    failed: '❌ failed',
+    'dry run': '📝 dry run'
+  };
+  const rows = report.commits.map(({ commit, status, reason }) => [
+    commit.id.substring(0, 7),
+    escapeCell(commit.message.split('\n')[0]),
+    String(commit.files.total_changes),
+    `+${commit.additions ?? 0} -${commit.deletions ?? 0}`,
+    reason ? escapeCell(`${statusLabel[status]}: ${reason}`) : statusLabel[status]
+  ]);
+  const skippedRows = report.skipped.map(({ id, reason }) => [
+    id.substring(0, 7),
+    '',
+    '',
+    '',
+    escapeCell(`⏭️ skipped: ${reason}`)
+  ]);
+
+  try {
+    core.summary.addHeading('shiploud.so', 2);
+    core.summary.addRaw(
+      `${report.commits.filter(({ status }) => status === 'delivered').length} of ${report.commits.length} commits ` +
+        `delivered in ${report.bodies.length} request(s), ${report.skipped.length} skipped.`,
+      true
+    );
+    core.summary.addTable([
+      [
+        { data: 'Commit', header: true },
+        { data: 'Message', header: true },
+        { data: 'Files', header: true },
+        { data: 'Lines', header: true },
+        { data: 'Status', header: true }
+      ],
+      ...rows,
+      ...skippedRows
+    ]);
+    if (report.cardUrls.length > 0) {
+      const link = (url: string) => `<a href="${escapeCell(url).replace(/"/g, '&quot;')}">${escapeCell(url)}</a>`;
+      core.summary.addList(report.cardUrls.map(link));
+    }
+    if (report.destinations.length > 1) {
+      core.summary.addList(
+        report.destinations.map(({ name, format, delivered, failed }) =>
+          escapeCell(`${name} (${format}): ${delivered} batch(es) delivered, ${failed} failed`)
+        )
+      );
+    }
+    await core.summary.write();
+  } catch (error) {
+    core.warning(`Failed to write job summary: ${error}`);
+  }
+}
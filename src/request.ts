@@ -0,0 +1,146 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { getInput } from './config';
+
+// Hard-default to production ingest endpoint; allow override via input/env if needed
+export const DEFAULT_INGEST_URL = 'https://shiploud.so/api/github-actions/ingest';
+
+/**
+ * The shiploud.so ingest endpoint, resolved when a request is built rather than at import
+ */
+export function resolveIngestUrl(): string {
+  return (
+    getInput('ingest-url') ||
+    process.env.SHIPLOUD_INGEST_URL ||
+    process.env.BUILDINPUBLIC_INGEST_URL || // backward compatibility
+    DEFAULT_INGEST_URL
+  ).trim();
+}
+
+/**
+ * Headers the ingest server must check, in order:
+ * 1. X-Shiploud-Signature-256 - HMAC-SHA256 of "<timestamp>.<delivery id>.<body>" keyed with the API token
+ * 2. X-Shiploud-Timestamp - Unix seconds; reject requests outside the tolerance window (default 5 minutes)
+ * 3. X-Shiploud-Delivery - unique per attempt; reject IDs already seen within the tolerance window
+ * 4. Idempotency-Key - stable across retries and re-runs; accept but do not re-ingest repeated keys
+ * X-Hub-Signature-256 (body only) is still sent for servers that have not migrated yet.
+ */
+export const SIGNATURE_HEADER = 'X-Shiploud-Signature-256';
+export const TIMESTAMP_HEADER = 'X-Shiploud-Timestamp';
+export const DELIVERY_HEADER = 'X-Shiploud-Delivery';
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export interface IngestRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface SigningOptions {
+  deliveryId?: string;
+  timestamp?: number; // Unix seconds
+}
+
+export interface VerificationResult {
+  valid: boolean;
+  reason?: string;
+}
+
+/**
+ * Generate HMAC SHA-256 signature for the payload
+ */
+export function generateSignature(payload: string, secret: string): string {
+  const hmac = createHmac('sha256', secret);
+  hmac.update(payload, 'utf8');
+  return `sha256=${hmac.digest('hex')}`;
+}
+
+/**
+ * Sign the timestamp and delivery ID together with the body so a captured request cannot be replayed later
+ */
+export function generateTimestampedSignature(
+  body: string,
+  secret: string,
+  timestamp: number,
+  deliveryId: string
+): string {
+  return generateSignature(`${timestamp}.${deliveryId}.${body}`, secret);
+}
+
+/**
+ * Key identifying the commits a request carries: the same repo, payload kind and SHAs always yield the same key
+ */
+export function computeIdempotencyKey(payload: unknown, body: string): string {
+  const { owner, repo, commits, type, pull_request } = (payload ?? {}) as {
+    owner?: string;
+    repo?: string;
+    commits?: Array<{ id?: string }>;
+    type?: string;
+    pull_request?: unknown;
+  };
+  const source = Array.isArray(commits)
+    ? `${owner}/${repo}:${type ?? (pull_request ? 'pull_request' : 'commits')}:${commits.map(c => c.id).join(',')}`
+    : body;
+  return createHash('sha256').update(source, 'utf8').digest('hex');
+}
+
+/**
+ * Serialize and sign a payload exactly as it is sent to the ingest endpoint.
+ * Every call gets a fresh delivery ID and timestamp; build a new request for every attempt.
+ */
+export function buildIngestRequest(
+  payload: unknown,
+  apiToken: string,
+  signing: SigningOptions = {},
+  url = resolveIngestUrl()
+): IngestRequest {
+  const body = JSON.stringify(payload);
+  const deliveryId = signing.deliveryId ?? randomUUID();
+  const timestamp = signing.timestamp ?? Math.floor(Date.now() / 1000);
+
+  return {
+    url,
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      'X-Hub-Signature-256': generateSignature(body, apiToken),
+      [SIGNATURE_HEADER]: generateTimestampedSignature(body, apiToken, timestamp, deliveryId),
+      [TIMESTAMP_HEADER]: String(timestamp),
+      [DELIVERY_HEADER]: deliveryId,
+      [IDEMPOTENCY_HEADER]: computeIdempotencyKey(payload, body),
+      'User-Agent': 'shiploud.so-Action/1.0.1'
+    },
+    body
+  };
+}
+
+/**
+ * Check an ingest request's timestamped signature the way the server should.
+ * Header names are matched case-insensitively; replayed delivery IDs must be tracked by the caller.
+ */
+export function verifyIngestSignature(
+  headers: Record<string, string | undefined>,
+  body: string,
+  secret: string,
+  { toleranceSeconds = DEFAULT_SIGNATURE_TOLERANCE_SECONDS, now = Date.now() } = {}
+): VerificationResult {
+  const lookup = (name: string) =>
+    Object.entries(headers).find(([key]) => key.toLowerCase() === name.toLowerCase())?.[1];
+  const signature = lookup(SIGNATURE_HEADER);
+  const timestamp = lookup(TIMESTAMP_HEADER);
+  const deliveryId = lookup(DELIVERY_HEADER);
+
+  if (!signature || !timestamp || !deliveryId) {
+    return { valid: false, reason: 'missing signature, timestamp or delivery header' };
+  }
+  if (!/^\d+$/.test(timestamp) || Math.abs(now / 1000 - Number(timestamp)) > toleranceSeconds) {
+    return { valid: false, reason: 'timestamp outside the tolerance window' };
+  }
+
+  const expected = Buffer.from(generateTimestampedSignature(body, secret, Number(timestamp), deliveryId));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'signature mismatch' };
+  }
+  return { valid: true };
+}
@@ -0,0 +1,155 @@
+import * as core from '@actions/core';
+import { DEFAULT_DELIVERY_OPTIONS, DeliveryOptions, backoffDelay } from './delivery';
+import { Commit } from './types';
+
+export interface IngestRejection {
+  id: string;
+  reason: string;
+  // The server may ask for a commit to be sent again later (e.g. it was still processing a related push)
+  retriable: boolean;
+}
+
+/**
+ * What the ingest API did with each commit of a request
+ */
+export interface IngestResult {
+  accepted: string[];
+  rejected: IngestRejection[];
+  duplicates: string[];
+}
+
+/**
+ * The combined result of every resend round
+ */
+export interface ResendResult extends IngestResult {
+  // Set when a resend round failed after an earlier round was answered: the commits it carried and why
+  undelivered?: { ids: string[]; error: string };
+}
+
+/**
+ * An error for a batch that was only partly delivered, carrying how many of its commits were accepted
+ */
+export function partialDeliveryError(message: string, accepted: number): Error {
+  return Object.assign(new Error(message), { accepted });
+}
+
+/**
+ * How many commits a failed send had already delivered: the count from partialDeliveryError, or none
+ */
+export function acceptedBeforeFailure(error: unknown): number {
+  const accepted = (error as { accepted?: unknown } | null)?.accepted;
+  return typeof accepted === 'number' ? accepted : 0;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+function entryId(entry: unknown): string | null {
+  if (typeof entry === 'string') return entry;
+  if (entry && typeof entry === 'object') {
+    const { id, sha } = entry as { id?: unknown; sha?: unknown };
+    if (typeof id === 'string') return id;
+    if (typeof sha === 'string') return sha;
+  }
+  return null;
+}
+
+function idList(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null;
+  return value.map(entryId).filter((id): id is string => id !== null);
+}
+
+function toRejection(entry: unknown): IngestRejection | null {
+  const id = entryId(entry);
+  if (!id) return null;
+  const { reason, error, retriable, retryable } = (typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+  return {
+    id,
+    reason: String(reason ?? error ?? 'no reason given'),
+    retriable: retriable === true || retryable === true
+  };
+}
+
+/**
+ * Read per-commit results from an ingest response body.
+ * Responses without result lists (older servers) accept everything that was sent,
+ * and commits the lists do not mention are treated as accepted so they are never resent forever.
+ */
+export function parseIngestResponse(responseText: string, sentIds: string[]): IngestResult {
+  let body: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(responseText);
+    if (parsed && typeof parsed === 'object') body = parsed;
+  } catch {
+    // deliverWithRetry only resolves with JSON bodies, but stay lenient
+  }
+
+  const rejected = Array.isArray(body.rejected)
+    ? body.rejected.map(toRejection).filter((r): r is IngestRejection => r !== null)
+    : [];
+  const duplicates = idList(body.duplicates) ?? [];
+  const handled = new Set([...rejected.map(r => r.id), ...duplicates]);
+
+  return {
+    accepted: sentIds.filter(id => !handled.has(id)),
+    rejected: rejected.filter(r => sentIds.includes(r.id)),
+    duplicates: duplicates.filter(id => sentIds.includes(id))
+  };
+}
+
+/**
+ * Send a batch, then resend only the commits the API rejected as retriable, up to `maxAttempts` rounds.
+ * Final rejections are logged as warnings. A transport failure of the first round propagates; one of a
+ * later round keeps what was already accepted and returns the commits still in flight as `undelivered`.
+ */
+export async function sendWithResend<T extends { commits: Commit[] }>(
+  batch: T,
+  send: (batch: T) => Promise<string>,
+  options: DeliveryOptions = DEFAULT_DELIVERY_OPTIONS
+): Promise<ResendResult> {
+  const sleep = options.sleep ?? defaultSleep;
+  const result: ResendResult = { accepted: [], rejected: [], duplicates: [] };
+  let pending = batch;
+
+  for (let round = 1; ; round++) {
+    const ids = pending.commits.map(commit => commit.id);
+    let responseText: string;
+    try {
+      responseText = await send(pending);
+    } catch (error) {
+      if (round === 1) throw error;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      core.warning(
+        `⚠️ Resending ${ids.length} commit(s) failed after ${result.accepted.length} were accepted: ${message}`
+      );
+      result.undelivered = { ids, error: message };
+      break;
+    }
+    const roundResult = parseIngestResponse(responseText, ids);
+    result.accepted.push(...roundResult.accepted);
+    result.duplicates.push(...roundResult.duplicates);
+
+    const retry = roundResult.rejected.filter(rejection => rejection.retriable);
+    result.rejected.push(...roundResult.rejected.filter(rejection => !rejection.retriable));
+
+    if (retry.length === 0) break;
+    if (round >= options.maxAttempts) {
+      result.rejected.push(...retry);
+      break;
+    }
+
+    const retryIds = new Set(retry.map(rejection => rejection.id));
+    pending = { ...pending, commits: pending.commits.filter(commit => retryIds.has(commit.id)) };
+    const delay = backoffDelay(round, options);
+    core.info(`🔁 Resending ${pending.commits.length} commit(s) the API asked to retry in ${delay}ms...`);
+    await sleep(delay);
+  }
+
+  if (result.duplicates.length > 0) {
+    core.info(`♻️ ${result.duplicates.length} commit(s) were already ingested`);
+  }
+  for (const rejection of result.rejected) {
+    core.warning(`⚠️ Commit ${rejection.id.substring(0, 7)} was rejected by the ingest API: ${rejection.reason}`);
+  }
+
+  return result;
+}
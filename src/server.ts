@@ -0,0 +1,59 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+
+export const DEFAULT_SERVER_URL = 'https://github.com';
+export const DEFAULT_API_URL = 'https://api.github.com';
+
+/**
+ * Where the repository lives: github.com or a GitHub Enterprise Server instance
+ */
+export interface GitHubServer {
+  // Web root used for commit, compare, pull request and release links
+  serverUrl: string;
+  // REST API root used by Octokit
+  apiUrl: string;
+}
+
+// Read from the workflow only, never the config file: the API URL is needed to fetch that file
+function readUrl(name: string, fallback: string): string {
+  const raw = core.getInput(name).trim();
+  const value = raw || fallback;
+  if (!/^https?:\/\/[^\s/]+/i.test(value)) {
+    throw new Error(`Invalid ${name} "${value}" - expected an http(s) URL`);
+  }
+  return value.replace(/\/+$/, '');
+}
+
+/**
+ * Read the server and API URLs from the github-server-url/github-api-url inputs, falling back to the
+ * workflow context. Overriding only the server URL of an Enterprise Server implies its /api/v3 endpoint.
+ */
+export function getGitHubServer(context: { serverUrl?: string; apiUrl?: string } = github.context): GitHubServer {
+  const serverUrl = readUrl('github-server-url', context.serverUrl || DEFAULT_SERVER_URL);
+  const serverOverridden = core.getInput('github-server-url').trim() !== '';
+  const impliedApiUrl =
+    serverOverridden && serverUrl !== DEFAULT_SERVER_URL ? `${serverUrl}/api/v3` : context.apiUrl || DEFAULT_API_URL;
+
+  return { serverUrl, apiUrl: readUrl('github-api-url', impliedApiUrl) };
+}
+
+/**
+ * Web link to a commit on the repository's server
+ */
+export function commitUrl(serverUrl: string, owner: string, repo: string, sha: string): string {
+  return `${serverUrl}/${owner}/${repo}/commit/${sha}`;
+}
+
+/**
+ * Web link comparing two revisions on the repository's server
+ */
+export function compareUrl(serverUrl: string, owner: string, repo: string, base: string, head: string): string {
+  return `${serverUrl}/${owner}/${repo}/compare/${base}...${head}`;
+}
+
+/**
+ * Web link to a workflow run on the repository's server
+ */
+export function workflowRunUrl(serverUrl: string, owner: string, repo: string, runId: number): string {
+  return `${serverUrl}/${owner}/${repo}/actions/runs/${runId}`;
+}
@@ -0,0 +1,78 @@
+import * as github from '@actions/github';
+import { CommitAssociations } from './associations';
+import { ChangeBreakdown } from './breakdown';
+import { CheckStatus } from './checks';
+import { ParsedMessage } from './message';
+
+export type Octokit = ReturnType<typeof github.getOctokit>;
+
+/**
+ * Minimal commit shape shared by every event source (mirrors push payload commits)
+ */
+export interface RawCommit {
+  id: string;
+  message: string;
+  author: { name: string; email: string };
+  timestamp: string;
+  // Parent SHAs, when the source provides them (push payloads do not)
+  parents?: string[];
+  // Signature verification, when the source provides it (push payloads do not)
+  verification?: CommitVerification;
+}
+
+/**
+ * GitHub's signature verification of a commit
+ */
+export interface CommitVerification {
+  verified: boolean;
+  // valid, unsigned, unknown_key, bad_email, ... as reported by the GitHub API
+  reason: string;
+  // Login of the account whose key verified the signature; null when unverified
+  signer: string | null;
+}
+
+/**
+ * One changed file with its line stats; patches are never exported
+ */
+export interface FileChange {
+  filename: string;
+  // added, modified, removed, renamed, copied, changed or unchanged
+  status: string;
+  additions: number;
+  deletions: number;
+  // Source path of a rename or copy
+  previous_filename?: string;
+}
+
+export interface Commit {
+  id: string;
+  message: string;
+  // email is hashed or omitted when the author-email input asks for it
+  author: { name: string; email?: string };
+  timestamp: string;
+  url: string;
+  parents?: string[];
+  additions?: number;
+  deletions?: number;
+  files: {
+    added: string[];
+    modified: string[];
+    removed: string[];
+    // Every changed file, including renames and copies the three lists above leave out
+    changes?: FileChange[];
+    // Every changed file, even when the lists and `changes` were cut at max-commit-files
+    total_changes: number;
+    // Set when the lists, `changes` and `breakdown` only cover the first max-commit-files files
+    truncated?: boolean;
+  };
+  // Changed files and lines by category (source, tests, docs, config) and language
+  breakdown?: ChangeBreakdown;
+  // Conventional Commit fields and trailers, derived from the exported (redacted) message
+  parsed?: ParsedMessage;
+  // Pull requests and referenced issues, when link-associations is enabled
+  associations?: CommitAssociations;
+  // Signature verification from the GitHub API; not available for local exports
+  verification?: CommitVerification;
+  // Combined check-run conclusion, when check-status is attach or require
+  checks?: CheckStatus;
+}
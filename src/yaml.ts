@@ -0,0 +1,19 @@
+import { parseAllDocuments } from 'yaml';
+
+/**
+ * Parse a single-document YAML 1.2 config file. Errors and warnings (such as unknown tags) are thrown as
+ * "<problem> at line N, column M" without the source excerpt.
+ */
+export function parseYaml(source: string): unknown {
+  const documents = parseAllDocuments(source, { prettyErrors: true, logLevel: 'silent' });
+  if (documents.length === 0) return null;
+  if (documents.length > 1) {
+    throw new Error('multiple documents are not supported');
+  }
+  const [document] = documents;
+  const [problem] = [...document.errors, ...document.warnings];
+  if (problem) {
+    throw new Error(problem.message.split('\n')[0].replace(/:$/, ''));
+  }
+  return document.toJS();
+}